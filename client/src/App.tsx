@@ -1,14 +1,21 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/Dashboard";
+import AuthPage from "@/pages/AuthPage";
+import { useAuth } from "@/hooks/useAuth";
+import { PreferencesProvider } from "@/hooks/usePreferences";
 
 function Router() {
+  const { user } = useAuth();
+
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      {/* /api/auth/me answers 401 without a session, signed in users go back to the charts */}
+      <Route path="/auth">{user ? <Redirect to="/" /> : <AuthPage />}</Route>
       <Route component={NotFound} />
     </Switch>
   );
@@ -17,7 +24,9 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
+      <PreferencesProvider>
+        <Router />
+      </PreferencesProvider>
       <Toaster />
     </QueryClientProvider>
   );
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bell, BellOff, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAlerts } from '@/hooks/useAlerts';
+import { TradingPair, timeIntervals } from '@/lib/types';
+import type { Alert, AlertCondition } from '@shared/schema';
+
+interface AlertsPanelProps {
+  pair: TradingPair;
+}
+
+const conditionLabels: Record<AlertCondition, string> = {
+  price_above: 'Price crosses above',
+  price_below: 'Price crosses below',
+  percent_move: 'Moves % within',
+  close_above: 'Candle closes above',
+  close_below: 'Candle closes below',
+  volume_spike: 'Volume × average',
+};
+
+const candleConditions: AlertCondition[] = ['close_above', 'close_below', 'volume_spike'];
+const lookbackConditions: AlertCondition[] = ['percent_move', 'volume_spike'];
+
+function describeAlert(alert: Alert): string {
+  const interval = timeIntervals.find(option => option.value === alert.interval)?.shortLabel ?? `${alert.interval}m`;
+  switch (alert.condition) {
+    case 'percent_move':
+      return `moves ${alert.threshold}% within ${alert.lookback} min`;
+    case 'close_above':
+      return `${interval} close above ${alert.threshold}`;
+    case 'close_below':
+      return `${interval} close below ${alert.threshold}`;
+    case 'volume_spike':
+      return `${interval} volume ${alert.threshold}× the ${alert.lookback} candle average`;
+    case 'price_above':
+      return `crosses above ${alert.threshold}`;
+    case 'price_below':
+      return `crosses below ${alert.threshold}`;
+  }
+}
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ pair }) => {
+  const { alerts, error, createAlert, updateAlert, deleteAlert } = useAlerts();
+  const { toast } = useToast();
+  const [condition, setCondition] = useState<AlertCondition>('price_above');
+  const [threshold, setThreshold] = useState<string>('');
+  const [candleInterval, setCandleInterval] = useState<number>(5);
+  const [lookback, setLookback] = useState<string>('20');
+  const [note, setNote] = useState<string>('');
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const usesInterval = candleConditions.includes(condition);
+  const usesLookback = lookbackConditions.includes(condition);
+
+  const handleError = (err: unknown) => {
+    toast({
+      title: 'Alert request failed',
+      description: err instanceof Error ? err.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = parseFloat(threshold);
+    const lookbackValue = parseInt(lookback, 10);
+    if (!Number.isFinite(value) || (usesLookback && !(lookbackValue > 0))) return;
+
+    setIsSaving(true);
+    try {
+      await createAlert({
+        pair: pair.wsname,
+        condition,
+        threshold: value,
+        note: note.trim() || null,
+        ...(usesInterval ? { interval: candleInterval } : {}),
+        ...(usesLookback ? { lookback: lookbackValue } : {}),
+      });
+      setThreshold('');
+      setNote('');
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-surface shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-medium flex items-center">
+          <Bell className="h-4 w-4 mr-2 text-primary" />
+          Alerts
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form className="flex flex-wrap gap-2 items-center mb-4" onSubmit={handleCreate}>
+          <span className="text-sm font-medium">{pair.wsname}</span>
+          <Select value={condition} onValueChange={(value) => setCondition(value as AlertCondition)}>
+            <SelectTrigger className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(conditionLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="any"
+            className="h-8 w-32"
+            placeholder={condition === 'percent_move' ? 'Percent' : condition === 'volume_spike' ? 'Multiple' : 'Price'}
+            value={threshold}
+            onChange={(event) => setThreshold(event.target.value)}
+          />
+          {usesInterval && (
+            <Select value={candleInterval.toString()} onValueChange={(value) => setCandleInterval(parseInt(value, 10))}>
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeIntervals.map(option => (
+                  <SelectItem key={option.value} value={option.value.toString()}>{option.shortLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {usesLookback && (
+            <Input
+              type="number"
+              min={1}
+              max={1440}
+              className="h-8 w-24"
+              title={condition === 'percent_move' ? 'Lookback in minutes' : 'Lookback in candles'}
+              value={lookback}
+              onChange={(event) => setLookback(event.target.value)}
+            />
+          )}
+          <Input
+            className="h-8 w-40"
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={isSaving || threshold === ''}>
+            Add alert
+          </Button>
+        </form>
+
+        {error && <div className="text-xs text-accent mb-2">{error}</div>}
+
+        {alerts.length === 0 ? (
+          <div className="text-xs text-textSecondary py-2 text-center">No alerts yet</div>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y divide-gray-200">
+            {alerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between py-2 gap-2">
+                <div className="text-sm">
+                  <span className="font-medium mr-2">{alert.pair}</span>
+                  <span>{describeAlert(alert)}</span>
+                  {alert.note && <span className="text-textSecondary ml-2">— {alert.note}</span>}
+                  <div className="text-xs text-textSecondary">
+                    {alert.active
+                      ? 'Armed'
+                      : alert.triggeredAt
+                        ? `Triggered ${format(new Date(alert.triggeredAt * 1000), 'MMM d HH:mm:ss')}`
+                        : 'Paused'}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {alert.active ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Pause"
+                      onClick={() => updateAlert(alert.id, { active: false }).catch(handleError)}
+                    >
+                      <BellOff className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Re-arm"
+                      onClick={() => updateAlert(alert.id, { active: true }).catch(handleError)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Delete"
+                    onClick={() => deleteAlert(alert.id).catch(handleError)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertsPanel;
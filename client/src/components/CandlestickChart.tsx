@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useImperativeHandle } from "react";
 import { format } from "date-fns";
 import {
   ChartCanvas,
@@ -11,6 +11,7 @@ import {
   OHLCTooltip,
   lastVisibleItemBasedZoomAnchor,
   EdgeIndicator,
+  SingleValueTooltip,
   withDeviceRatio,
   withSize,
 } from "react-financial-charts";
@@ -19,40 +20,252 @@ import {
   CandlestickSeries,
   LineSeries,
   BarSeries,
+  StraightLine,
 } from "react-financial-charts";
-import { OHLCData } from "@/lib/types";
+import { OHLCData, TradingPair } from "@/lib/types";
+import { PairPrecision, formatPrice, formatPriceChange } from "@/lib/format";
+import {
+  IndicatorConfig,
+  IndicatorPoint,
+  indicatorDefinitions,
+  indicatorLabel,
+} from "@/lib/indicators";
+import { useIndicators } from "@/hooks/useIndicators";
+import { CursorSync } from "@/lib/cursorSync";
+import { CandleGap } from "@/lib/gaps";
+import LinkedCursor from "./LinkedCursor";
+import GapMarkers from "./GapMarkers";
 
 interface CandlestickChartProps {
   data: OHLCData[];
+  pair?: TradingPair; // prices are shown with its precision
   width: number;  // ✅ Ensure width is required
   height: number; // ✅ Ensure height is required
   ratio: number;  // ✅ Ensure ratio is required
   isLoading: boolean;
   chartType: "candles" | "line";
+  seriesKey?: string; // Changing it resets the view, e.g. on pair/interval change
+  hasMoreHistory?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  indicators?: IndicatorConfig[];
+  // Holes in the data that could not be backfilled, of candles `interval` minutes apart
+  gaps?: CandleGap[];
+  interval?: number;
+  // Passed as a prop because the size and device ratio wrappers don't forward refs
+  controlsRef?: React.Ref<ChartHandle>;
+  // Shares the crosshair time with other charts of a linked layout
+  cursorSync?: CursorSync;
+  cursorId?: string;
+}
+
+// Viewport controls exposed to the toolbar and keyboard shortcuts
+export interface ChartHandle {
+  zoomIn(): void;
+  zoomOut(): void;
+  panLeft(): void;
+  panRight(): void;
+  resetView(): void;
+  fitAll(): void;
+  goToDate(date: Date): void;
 }
 
+// Number of candles visible when a series is first shown
+const INITIAL_VISIBLE_CANDLES = 100;
+
+// Each zoom step shows this much less (or more) of the series
+const ZOOM_STEP = 1.5;
+
+// Fraction of the visible range moved by one pan step
+const PAN_STEP = 0.25;
+
+// Zooming in never shows fewer candles than this
+const MIN_VISIBLE_CANDLES = 10;
+
+// Height of each stacked oscillator pane below the price chart
+export const INDICATOR_PANE_HEIGHT = 110;
+
+// Used until the pair is known
+const defaultPrecision: PairPrecision = { pair_decimals: 2, lot_decimals: 8 };
+
+// Candles as plotted, with the indicator values for that candle attached
+type ChartDatum = OHLCData & { indicators: Record<string, IndicatorPoint | undefined> };
+
+const noIndicators: IndicatorConfig[] = [];
+const noGaps: CandleGap[] = [];
+
+const indicatorValue = (id: string, key: string) => (d: ChartDatum) => d.indicators[id]?.[key];
+
+// Values an indicator produced for a candle, skipping outputs still warming up
+const indicatorValues = (d: ChartDatum, id: string) =>
+  Object.values(d.indicators[id] ?? {}).filter((value): value is number => value !== undefined);
+
+// Lines and histograms for one indicator, drawn inside the Chart they belong to
+const renderIndicatorSeries = (config: IndicatorConfig) => {
+  const { outputs } = indicatorDefinitions[config.type];
+  return outputs.map((output, i) =>
+    output.style === "histogram" ? (
+      <BarSeries
+        key={`${config.id}-${output.key}`}
+        yAccessor={indicatorValue(config.id, output.key) as (d: any) => number | undefined}
+        baseAt={(_xScale, yScale) => yScale(0)}
+        fillStyle={`${config.color}66`}
+      />
+    ) : (
+      <LineSeries
+        key={`${config.id}-${output.key}`}
+        yAccessor={indicatorValue(config.id, output.key) as (d: any) => number | undefined}
+        strokeStyle={config.color}
+        strokeDasharray={i > 0 && outputs.length > 1 ? "ShortDash" : "Solid"}
+        strokeWidth={1.5}
+      />
+    )
+  );
+};
 
 const getDateAccessor = (d: OHLCData): Date => d.time;
 
-const timeScaleProvider = discontinuousTimeScaleProviderBuilder().inputDateAccessor(getDateAccessor);
+// Index of the candle with the given timestamp, or -1
+const indexOfTime = (data: OHLCData[], time: number): number =>
+  data.findIndex((d) => d.time.getTime() === time);
+
+interface SeriesState {
+  seriesKey?: string;
+  data: OHLCData[];
+  indexOffset: number;
+  xExtents: number[];
+}
 
 const CandlestickChart: React.FC<CandlestickChartProps> = ({
   data,
+  pair,
   width,
   height,
   ratio,
   isLoading,
   chartType,
+  seriesKey,
+  hasMoreHistory = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  indicators = noIndicators,
+  gaps = noGaps,
+  interval,
+  controlsRef,
+  cursorSync,
+  cursorId = "chart",
 }) => {
   const [xScaleProvider, setXScaleProvider] = useState<any>(null);
   const chartRef = useRef<ChartCanvas<number> | null>(null);
+  const seriesRef = useRef<SeriesState | null>(null);
+  const computedIndicators = useIndicators(data, indicators, seriesKey);
 
   useEffect(() => {
     if (data.length > 0) {
-      const { data: timeScaleData, xScale, xAccessor, displayXAccessor } = timeScaleProvider(data);
-      setXScaleProvider({ data: timeScaleData, xScale, xAccessor, displayXAccessor });
+      // Candles keep their x index when older ones are prepended or the
+      // oldest ones are trimmed, so the viewport does not jump around
+      const previous = seriesRef.current;
+      let indexOffset: number | null = null;
+
+      if (previous && previous.seriesKey === seriesKey && previous.data.length > 0) {
+        const prepended = indexOfTime(data, previous.data[0].time.getTime());
+        const trimmed = indexOfTime(previous.data, data[0].time.getTime());
+        if (prepended >= 0) {
+          indexOffset = previous.indexOffset - prepended;
+        } else if (trimmed >= 0) {
+          indexOffset = previous.indexOffset + trimmed;
+        }
+      }
+
+      // A new series (or unrelated data) starts over showing the latest candles
+      const isNewSeries = indexOffset === null;
+      const offset = indexOffset ?? 0;
+      const xExtents = isNewSeries || !previous
+        ? [offset + Math.max(0, data.length - INITIAL_VISIBLE_CANDLES), offset + data.length - 1]
+        : previous.xExtents;
+
+      seriesRef.current = { seriesKey, data, indexOffset: offset, xExtents };
+
+      const timeScaleProvider = discontinuousTimeScaleProviderBuilder()
+        .initialIndex(offset)
+        .inputDateAccessor(getDateAccessor);
+      const chartData: ChartDatum[] = data.map((candle, i) => ({
+        ...candle,
+        indicators: Object.fromEntries(
+          Object.entries(computedIndicators).map(([id, values]) => [id, values[i]])
+        ),
+      }));
+      const { data: timeScaleData, xScale, xAccessor, displayXAccessor } = timeScaleProvider(chartData);
+      setXScaleProvider({ data: timeScaleData, xScale, xAccessor, displayXAccessor, xExtents });
     }
-  }, [data]);
+  }, [data, seriesKey, computedIndicators]);
+
+  // Current x domain of the chart with the index range of the loaded candles.
+  // The domain lives in ChartCanvas state, so it survives live updates.
+  const getViewport = () => {
+    const canvas = chartRef.current;
+    const series = seriesRef.current;
+    if (!canvas || !series || series.data.length === 0) return null;
+
+    const [start, end] = canvas.state.xScale.domain().map(Number);
+    const first = series.indexOffset;
+    const last = series.indexOffset + series.data.length - 1;
+    return { start, end, first, last, series };
+  };
+
+  const showRange = (start: number, end: number) => {
+    chartRef.current?.xAxisZoom([start, end]);
+  };
+
+  useImperativeHandle(controlsRef, () => {
+    // Zoom keeps the latest candle in place while it is on screen,
+    // otherwise the right edge of the view
+    const zoom = (factor: number) => {
+      const viewport = getViewport();
+      if (!viewport) return;
+      const { start, end, last } = viewport;
+      const anchor = Math.min(end, last);
+      const width = Math.max((end - start) * factor, MIN_VISIBLE_CANDLES);
+      const position = (anchor - start) / (end - start || 1);
+      showRange(anchor - width * position, anchor + width * (1 - position));
+    };
+
+    const pan = (direction: number) => {
+      const viewport = getViewport();
+      if (!viewport) return;
+      const shift = (viewport.end - viewport.start) * PAN_STEP * direction;
+      showRange(viewport.start + shift, viewport.end + shift);
+    };
+
+    return {
+      zoomIn: () => zoom(1 / ZOOM_STEP),
+      zoomOut: () => zoom(ZOOM_STEP),
+      panLeft: () => pan(-1),
+      panRight: () => pan(1),
+      resetView: () => {
+        const viewport = getViewport();
+        if (!viewport) return;
+        showRange(Math.max(viewport.first, viewport.last - INITIAL_VISIBLE_CANDLES + 1), viewport.last);
+      },
+      fitAll: () => {
+        const viewport = getViewport();
+        if (!viewport) return;
+        showRange(viewport.first, viewport.last);
+      },
+      // Centers the candle closest to the date. Dates before the loaded
+      // history scroll to the oldest candle, which loads the page before it.
+      goToDate: (date: Date) => {
+        const viewport = getViewport();
+        if (!viewport) return;
+        const { start, end, first, series } = viewport;
+        const target = date.getTime();
+        const index = series.data.findIndex((d) => d.time.getTime() >= target);
+        const center = index >= 0 ? first + index : viewport.last;
+        const half = (end - start) / 2;
+        showRange(center - half, center + half);
+      },
+    };
+  }, []);
 
   if (!xScaleProvider || data.length === 0) {
     return (
@@ -62,22 +275,36 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({
     );
   }
 
-  const { data: timeScaleData, xScale, xAccessor, displayXAccessor } = xScaleProvider;
+  const { data: timeScaleData, xScale, xAccessor, displayXAccessor, xExtents } = xScaleProvider;
 
   const margin = { left: 70, right: 70, top: 30, bottom: 30 };
-  const xExtents = [
-    xAccessor(timeScaleData[Math.max(0, timeScaleData.length - 100)]),
-    xAccessor(timeScaleData[timeScaleData.length - 1]),
-  ];
+
+  // Called by the chart when the user pans or zooms past the first candle
+  const handleLoadBefore = () => {
+    if (hasMoreHistory && !isLoadingOlder && onLoadOlder) {
+      onLoadOlder();
+    }
+  };
 
   const timeDisplayFormat = (time: Date) => format(time, "HH:mm MMM dd");
-  const priceDisplayFormat = (price: number) => price.toFixed(2);
+  const precision = pair ?? defaultPrecision;
+  const priceDisplayFormat = (price: number | { valueOf(): number }) => formatPrice(price.valueOf(), precision);
+  const priceChangeFormat = (change: number | { valueOf(): number }) => formatPriceChange(change.valueOf(), precision);
+
+  const overlays = indicators.filter((config) => indicatorDefinitions[config.type].placement === "overlay");
+  const panes = indicators.filter((config) => indicatorDefinitions[config.type].placement === "pane");
 
   const gridHeight = height - margin.top - margin.bottom;
-  const volumeHeight = gridHeight * 0.2;
-  const candleHeight = gridHeight - volumeHeight;
+  const priceHeight = gridHeight - panes.length * INDICATOR_PANE_HEIGHT;
+  const volumeHeight = priceHeight * 0.2;
+  const candleHeight = priceHeight - volumeHeight;
 
-  const candleChartExtents = (d: OHLCData) => [d.high, d.low];
+  // Keep overlays such as Bollinger Bands inside the price scale
+  const candleChartExtents = (d: ChartDatum) => [
+    d.high,
+    d.low,
+    ...overlays.flatMap((config) => indicatorValues(d, config.id)),
+  ];
   const yExtents = candleChartExtents;
   const volumeAccessor = (d: OHLCData) => d.volume;
   const volumeExtents = (d: OHLCData) => volumeAccessor(d);
@@ -87,6 +314,7 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({
   const volumeColor = (d: OHLCData) => (d.close > d.open ? "rgba(38, 166, 154, 0.3)" : "rgba(239, 83, 80, 0.3)");
 
   return (
+    <>
     <ChartCanvas<number>
       ref={chartRef}
       height={height}
@@ -99,7 +327,8 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({
       xScale={xScale}
       xExtents={xExtents}
       zoomAnchor={lastVisibleItemBasedZoomAnchor}
-      seriesName="CandlestickSeries"
+      onLoadBefore={handleLoadBefore}
+      seriesName={seriesKey ?? "CandlestickSeries"}
     >
       <Chart id={1} yExtents={yExtents} height={candleHeight}>
         <XAxis
@@ -131,17 +360,73 @@ const CandlestickChart: React.FC<CandlestickChartProps> = ({
           edgeAt="right"
           yAccessor={(d: OHLCData) => d.close}
           fill={(d: OHLCData) => (d.close > d.open ? "hsl(var(--secondary))" : "hsl(var(--accent))")}
+          displayFormat={priceDisplayFormat}
         />
 
-        <OHLCTooltip origin={[8, 16]} textFill="hsl(var(--textPrimary))" labelFill="hsl(var(--textSecondary))" />
+        {overlays.map(renderIndicatorSeries)}
+
+        {gaps.length > 0 && interval && <GapMarkers gaps={gaps} interval={interval} />}
+
+        <OHLCTooltip
+          origin={[8, 16]}
+          textFill="hsl(var(--textPrimary))"
+          labelFill="hsl(var(--textSecondary))"
+          ohlcFormat={priceDisplayFormat}
+          changeFormat={priceChangeFormat}
+        />
       </Chart>
 
-      <Chart id={2} height={volumeHeight} origin={(w, h) => [0, h - volumeHeight]} yExtents={volumeExtents}>
+      <Chart id={2} height={volumeHeight} origin={[0, candleHeight]} yExtents={volumeExtents}>
       <BarSeries yAccessor={volumeAccessor} fillStyle={(d: OHLCData) => (d.close > d.open ? "rgba(38, 166, 154, 0.3)" : "rgba(239, 83, 80, 0.3)")} />
       </Chart>
 
+      {panes.map((config, i) => {
+        const definition = indicatorDefinitions[config.type];
+        const paneExtents = (d: ChartDatum) => [
+          ...indicatorValues(d, config.id),
+          ...(definition.levels ?? []),
+        ];
+        return (
+          <Chart
+            key={config.id}
+            id={`pane-${config.id}`}
+            height={INDICATOR_PANE_HEIGHT - 10}
+            origin={[0, priceHeight + i * INDICATOR_PANE_HEIGHT + 10]}
+            yExtents={paneExtents as (d: any) => number[]}
+          >
+            <YAxis
+              ticks={3}
+              gridLinesStrokeStyle="hsl(var(--chart-grid))"
+              tickStrokeStyle="hsl(var(--chart-axis))"
+              tickLabelFill="hsl(var(--textSecondary))"
+            />
+            {(definition.levels ?? []).map((level) => (
+              <StraightLine key={level} yValue={level} strokeStyle="hsl(var(--chart-axis))" lineDash="ShortDash" />
+            ))}
+            {renderIndicatorSeries(config)}
+            <MouseCoordinateY at="right" orient="right" displayFormat={(value: number) => value.toFixed(2)} />
+            <SingleValueTooltip
+              origin={[8, 8]}
+              yLabel={indicatorLabel(config)}
+              yAccessor={indicatorValue(config.id, definition.outputs[definition.outputs.length > 1 ? 1 : 0].key) as (d: any) => number}
+              yDisplayFormat={(value: number) => value.toFixed(2)}
+              labelFill={config.color}
+              valueFill="hsl(var(--textPrimary))"
+            />
+          </Chart>
+        );
+      })}
+
       <CrossHairCursor strokeDasharray="ShortDash" />
+      {cursorSync && <LinkedCursor sync={cursorSync} id={cursorId} />}
       </ChartCanvas>
+
+      {isLoadingOlder && (
+        <div className="absolute top-6 left-6 text-xs text-textSecondary bg-surface bg-opacity-80 px-2 py-1 rounded">
+          Loading older candles...
+        </div>
+      )}
+    </>
   );
 };
 
@@ -1,57 +1,194 @@
-import React, { useCallback, useRef } from 'react';
-import CandlestickChart from './CandlestickChart';
-import { OHLCData } from '@/lib/types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import CandlestickChart, { ChartHandle, INDICATOR_PANE_HEIGHT } from './CandlestickChart';
+import IndicatorControls from './IndicatorControls';
+import { useReplay, replaySpeeds } from '@/hooks/useReplay';
+import { OHLCData, TradingPair } from '@/lib/types';
+import { formatInterval } from '@/lib/resample';
+import { CursorSync } from '@/lib/cursorSync';
+import { CandleGap } from '@/lib/gaps';
+import { IndicatorConfig, indicatorDefinitions } from '@/lib/indicators';
+import type { IndicatorSet } from '@shared/schema';
 import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   BarChart2, 
   TrendingUp, 
   ZoomIn, 
   ZoomOut, 
-  RefreshCw 
+  RefreshCw,
+  Maximize2,
+  CalendarDays,
+  History,
+  Play,
+  Pause,
+  StepBack,
+  StepForward,
+  SkipBack,
+  SkipForward,
+  X
 } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 
 interface ChartContainerProps {
   data: OHLCData[];
+  pair?: TradingPair; // precision of the price scale
   isLoading: boolean;
   chartType: 'candles' | 'line';
   onChartTypeChange: (type: 'candles' | 'line') => void;
   onRefresh: () => void;
+  seriesKey?: string;
+  interval?: number;
+  liveInterval?: number | null;
+  gaps?: CandleGap[]; // marked on the chart
+  hasMoreHistory?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  title?: React.ReactNode;
+  height?: number;  // of the price chart, oscillator panes come on top
+  cursorSync?: CursorSync;
+  cursorId?: string;
+  indicators: IndicatorConfig[];
+  onIndicatorsChange: (indicators: IndicatorConfig[]) => void;
+  indicatorSets?: IndicatorSet[];
+  onIndicatorSetsChange?: (sets: IndicatorSet[]) => void;
 }
 
+// e.g. "Live 5m", or "Live 1h → 2h" when a custom interval is resampled
+const liveIntervalLabel = (liveInterval: number, interval?: number) =>
+  interval && interval !== liveInterval
+    ? `Live ${formatInterval(liveInterval)} → ${formatInterval(interval)}`
+    : `Live ${formatInterval(liveInterval)}`;
+
+// Candles skipped by the jump buttons of the replay controls
+const REPLAY_JUMP = 10;
+
 const ChartContainer: React.FC<ChartContainerProps> = ({
   data,
+  pair,
   isLoading,
   chartType,
   onChartTypeChange,
-  onRefresh
+  onRefresh,
+  seriesKey,
+  interval,
+  liveInterval,
+  gaps,
+  hasMoreHistory,
+  isLoadingOlder,
+  onLoadOlder,
+  title = 'Price Chart',
+  height = 440,
+  cursorSync,
+  cursorId,
+  indicators,
+  onIndicatorsChange,
+  indicatorSets,
+  onIndicatorSetsChange
 }) => {
-  const chartRef = useRef<any>(null);
+  const chartRef = useRef<ChartHandle>(null);
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState<boolean>(false);
+  const [isReplayPickerOpen, setIsReplayPickerOpen] = useState<boolean>(false);
+  // Replayed candles take the place of the loaded ones in the chart
+  const replay = useReplay(data);
+  const { stop: stopReplay } = replay;
+
+  // A replay belongs to the series it was started on
+  useEffect(() => {
+    stopReplay();
+  }, [seriesKey, stopReplay]);
+
+  // Every oscillator adds a pane below the price chart
+  const paneCount = indicators.filter((config) => indicatorDefinitions[config.type].placement === 'pane').length;
+  const chartHeight = height + paneCount * INDICATOR_PANE_HEIGHT;
 
   const handleZoomIn = useCallback(() => {
-    if (chartRef.current && chartRef.current.zoomIn) {
-      chartRef.current.zoomIn();
-    }
+    chartRef.current?.zoomIn();
   }, []);
 
   const handleZoomOut = useCallback(() => {
-    if (chartRef.current && chartRef.current.zoomOut) {
-      chartRef.current.zoomOut();
-    }
+    chartRef.current?.zoomOut();
   }, []);
 
   const handleReset = useCallback(() => {
-    if (chartRef.current && chartRef.current.resetView) {
-      chartRef.current.resetView();
+    chartRef.current?.resetView();
+  }, []);
+
+  const handleFitAll = useCallback(() => {
+    chartRef.current?.fitAll();
+  }, []);
+
+  const handleGoToDate = useCallback((date: Date | undefined) => {
+    if (date) {
+      chartRef.current?.goToDate(date);
+      setIsDatePickerOpen(false);
     }
   }, []);
 
+  // Starts a replay, or jumps to the date while one is running
+  const handleReplayDate = useCallback((date: Date | undefined) => {
+    if (date) {
+      replay.start(date);
+      setIsReplayPickerOpen(false);
+    }
+  }, [replay.start]);
+
+  const toggleReplayPlaying = useCallback(() => {
+    if (replay.isPlaying) {
+      replay.pause();
+    } else {
+      replay.play();
+    }
+  }, [replay.isPlaying, replay.play, replay.pause]);
+
+  // Shortcuts apply while the chart area has focus
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const actions: Record<string, (() => void) | undefined> = {
+      ' ': replay.isActive ? toggleReplayPlaying : undefined,
+      '+': chartRef.current?.zoomIn,
+      '=': chartRef.current?.zoomIn,
+      '-': chartRef.current?.zoomOut,
+      'ArrowLeft': chartRef.current?.panLeft,
+      'ArrowRight': chartRef.current?.panRight,
+      'r': chartRef.current?.resetView,
+      'f': chartRef.current?.fitAll,
+    };
+    const action = actions[e.key];
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  }, [replay.isActive, toggleReplayPlaying]);
+
   return (
     <div className="bg-surface rounded-lg shadow-lg mb-4">
       <div className="p-4 border-b border-gray-800">
-        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
-          <h2 className="text-lg font-medium mb-2 sm:mb-0">Price Chart</h2>
-          <div className="flex gap-2 items-center">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 justify-between items-start sm:items-center">
+          <div className="flex items-center gap-3 mb-2 sm:mb-0">
+            {typeof title === 'string' ? <h2 className="text-lg font-medium">{title}</h2> : title}
+            {replay.isActive && replay.position ? (
+              <span className="text-xs text-textSecondary flex items-center">
+                <span className="h-2 w-2 rounded-full mr-1 bg-accent"></span>
+                Replay {format(replay.position, 'HH:mm MMM dd')}
+              </span>
+            ) : (
+              <span className="text-xs text-textSecondary flex items-center">
+                <span className={`h-2 w-2 rounded-full mr-1 ${liveInterval ? 'bg-secondary' : 'bg-gray-500'}`}></span>
+                {liveInterval ? liveIntervalLabel(liveInterval, interval) : 'Waiting for live data'}
+              </span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 items-center">
             <Button
               variant={chartType === 'candles' ? 'secondary' : 'outline'}
               size="sm"
@@ -78,7 +215,7 @@ const ChartContainer: React.FC<ChartContainerProps> = ({
               size="icon" 
               className="bg-white hover:bg-gray-700"
               onClick={handleZoomIn}
-              title="Zoom In"
+              title="Zoom In (+)"
             >
               <ZoomIn className="h-4 w-4" />
             </Button>
@@ -87,7 +224,7 @@ const ChartContainer: React.FC<ChartContainerProps> = ({
               size="icon" 
               className="bg-white hover:bg-gray-700"
               onClick={handleZoomOut}
-              title="Zoom Out"
+              title="Zoom Out (-)"
             >
               <ZoomOut className="h-4 w-4" />
             </Button>
@@ -96,23 +233,167 @@ const ChartContainer: React.FC<ChartContainerProps> = ({
               size="icon" 
               className="bg-white hover:bg-gray-700"
               onClick={handleReset}
-              title="Reset View"
+              title="Reset View (R)"
             >
               <RefreshCw className="h-4 w-4" />
             </Button>
+            <Button 
+              variant="outline" 
+              size="icon" 
+              className="bg-white hover:bg-gray-700"
+              onClick={handleFitAll}
+              title="Fit All (F)"
+            >
+              <Maximize2 className="h-4 w-4" />
+            </Button>
+            <Popover open={isDatePickerOpen} onOpenChange={setIsDatePickerOpen}>
+              <PopoverTrigger asChild>
+                <Button 
+                  variant="outline" 
+                  size="icon" 
+                  className="bg-white hover:bg-gray-700"
+                  title="Go to Date"
+                >
+                  <CalendarDays className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  onSelect={handleGoToDate}
+                  disabled={{ after: new Date() }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            <Popover open={isReplayPickerOpen} onOpenChange={setIsReplayPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button 
+                  variant={replay.isActive ? 'secondary' : 'outline'}
+                  size="icon" 
+                  className={replay.isActive ? 'bg-gray-800' : 'bg-white hover:bg-gray-700'}
+                  title={replay.isActive ? 'Jump to Date' : 'Replay from Date'}
+                  disabled={data.length === 0}
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  onSelect={handleReplayDate}
+                  disabled={data.length > 0 ? { before: data[0].time, after: new Date() } : { after: new Date() }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+        </div>
+        {replay.isActive && (
+          <div className="mt-3 flex flex-wrap gap-2 items-center">
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white hover:bg-gray-700"
+              onClick={() => replay.step(-REPLAY_JUMP)}
+              title={`Back ${REPLAY_JUMP} Candles`}
+            >
+              <SkipBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white hover:bg-gray-700"
+              onClick={() => replay.step(-1)}
+              title="Previous Candle"
+            >
+              <StepBack className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white hover:bg-gray-700"
+              onClick={toggleReplayPlaying}
+              disabled={!replay.isPlaying && replay.isAtEnd}
+              title={replay.isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+            >
+              {replay.isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white hover:bg-gray-700"
+              onClick={() => replay.step(1)}
+              disabled={replay.isAtEnd}
+              title="Next Candle"
+            >
+              <StepForward className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="bg-white hover:bg-gray-700"
+              onClick={() => replay.step(REPLAY_JUMP)}
+              disabled={replay.isAtEnd}
+              title={`Forward ${REPLAY_JUMP} Candles`}
+            >
+              <SkipForward className="h-4 w-4" />
+            </Button>
+            <Select value={replay.speed.toString()} onValueChange={(value) => replay.setSpeed(parseInt(value, 10))}>
+              <SelectTrigger className="h-8 w-20" title="Candles per Second">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {replaySpeeds.map(speed => (
+                  <SelectItem key={speed} value={speed.toString()}>{speed}x</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-white hover:bg-gray-700"
+              onClick={replay.stop}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Exit Replay
+            </Button>
           </div>
+        )}
+        <div className="mt-3">
+          <IndicatorControls
+            indicators={indicators}
+            onChange={onIndicatorsChange}
+            sets={indicatorSets}
+            onSetsChange={onIndicatorSetsChange}
+          />
         </div>
       </div>
       
       <div className="relative p-4">
-        <div className="chart-container h-[440px] w-full">
+        <div
+          className="chart-container w-full outline-none"
+          style={{ height: chartHeight }}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+        >
           <CandlestickChart
-            data={data}
+            data={replay.data}
+            pair={pair}
             isLoading={isLoading}
             chartType={chartType}
-            ref={chartRef}
+            seriesKey={replay.isActive ? `${seriesKey}-replay` : seriesKey}
+            hasMoreHistory={hasMoreHistory}
+            isLoadingOlder={isLoadingOlder}
+            onLoadOlder={onLoadOlder}
+            indicators={indicators}
+            gaps={gaps}
+            interval={interval}
+            cursorSync={cursorSync}
+            cursorId={cursorId}
+            controlsRef={chartRef}
             width={800} // These will be overridden by HOCs
-            height={440}
+            height={chartHeight}
             ratio={1}
           />
           
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo } from 'react';
+import { useKrakenData } from '@/hooks/useKrakenData';
+import { usePreferences } from '@/hooks/usePreferences';
+import { validIndicators, withRecentPair } from '@/lib/preferences';
+import { IndicatorConfig } from '@/lib/indicators';
+import { TradingPair, timeIntervals } from '@/lib/types';
+import { customTimeIntervals } from '@/lib/resample';
+import { formatPrice } from '@/lib/format';
+import { CursorSync } from '@/lib/cursorSync';
+import ChartContainer from './ChartContainer';
+import PriceTicker from './PriceTicker';
+import PairSelector from './PairSelector';
+import IntervalSelector from './IntervalSelector';
+
+interface ChartPaneProps {
+  index: number;
+  height: number;
+  showTicker: boolean;
+  // Pair chosen in any pane of a linked layout, followed by every pane
+  linkedPair: TradingPair | null;
+  // Pair to show, e.g. clicked in a watchlist. A new object for every request.
+  pairRequest?: { pair: TradingPair } | null;
+  cursorSync?: CursorSync;
+  onPairChange: (pair: TradingPair) => void;   // picked by the user in this pane
+  onPairShown: (index: number, pair: TradingPair) => void;
+  onActivate: (index: number) => void;
+}
+
+// One chart of the workspace grid with its own pair, interval and data
+const ChartPane: React.FC<ChartPaneProps> = ({
+  index,
+  height,
+  showTicker,
+  linkedPair,
+  pairRequest,
+  cursorSync,
+  onPairChange,
+  onPairShown,
+  onActivate
+}) => {
+  const { preferences, updatePreferences, updatePane } = usePreferences();
+  const settings = preferences.panes[index];
+  const storedIndicators = settings?.indicators;
+  const indicators = useMemo(() => validIndicators(storedIndicators ?? []), [storedIndicators]);
+
+  const {
+    ohlcData,
+    ticker,
+    selectedPair,
+    interval,
+    availablePairs,
+    isLoading,
+    isChartType,
+    liveInterval,
+    gaps,
+    isLoadingOlder,
+    hasMoreHistory,
+    setSelectedPair,
+    setInterval,
+    setChartType,
+    refreshData,
+    loadOlderData
+  } = useKrakenData({
+    initialPairId: settings?.pair,
+    initialInterval: settings?.interval ?? preferences.defaultInterval,
+    initialChartType: preferences.chartType
+  });
+
+  useEffect(() => {
+    if (linkedPair && linkedPair.id !== selectedPair.id) {
+      setSelectedPair(linkedPair);
+      updatePane(index, { pair: linkedPair.id });
+    }
+  }, [linkedPair]);
+
+  useEffect(() => {
+    if (pairRequest) {
+      handlePairSelect(pairRequest.pair);
+    }
+  }, [pairRequest]);
+
+  useEffect(() => {
+    onPairShown(index, selectedPair);
+  }, [index, selectedPair, onPairShown]);
+
+  // Only choices made by the user are saved, not the defaults shown while loading
+  const handlePairSelect = (pair: TradingPair) => {
+    setSelectedPair(pair);
+    updatePane(index, { pair: pair.id });
+    updatePreferences({ recentPairs: withRecentPair(preferences.recentPairs, pair.id) });
+    onPairChange(pair);
+  };
+
+  const handleIntervalSelect = (value: number) => {
+    setInterval(value);
+    updatePane(index, { interval: value });
+  };
+
+  const handleChartTypeChange = (type: 'candles' | 'line') => {
+    setChartType(type);
+    updatePreferences({ chartType: type });
+  };
+
+  const handleIndicatorsChange = (next: IndicatorConfig[]) => {
+    updatePane(index, { indicators: next });
+  };
+
+  const handleToggleFavorite = (pair: TradingPair) => {
+    const favorites = preferences.favoritePairs;
+    updatePreferences({
+      favoritePairs: favorites.includes(pair.id)
+        ? favorites.filter(id => id !== pair.id)
+        : [...favorites, pair.id],
+    });
+  };
+
+  return (
+    <div onPointerDown={() => onActivate(index)}>
+      {showTicker && (
+        <PriceTicker 
+          ticker={ticker} 
+          pair={selectedPair} 
+          isLoading={isLoading} 
+        />
+      )}
+
+      <ChartContainer
+        pair={selectedPair}
+        data={ohlcData}
+        isLoading={isLoading}
+        chartType={isChartType}
+        onChartTypeChange={handleChartTypeChange}
+        onRefresh={refreshData}
+        seriesKey={`${selectedPair.id}-${interval}`}
+        interval={interval}
+        liveInterval={liveInterval}
+        gaps={gaps}
+        hasMoreHistory={hasMoreHistory}
+        isLoadingOlder={isLoadingOlder}
+        onLoadOlder={loadOlderData}
+        height={height}
+        cursorSync={cursorSync}
+        cursorId={`pane-${index}`}
+        indicators={indicators}
+        onIndicatorsChange={handleIndicatorsChange}
+        indicatorSets={preferences.indicatorSets}
+        onIndicatorSetsChange={(indicatorSets) => updatePreferences({ indicatorSets })}
+        title={
+          <div className="flex flex-wrap gap-2 items-center">
+            <PairSelector
+              pairs={availablePairs}
+              selectedPair={selectedPair}
+              onSelect={handlePairSelect}
+              favorites={preferences.favoritePairs}
+              onToggleFavorite={handleToggleFavorite}
+              recent={preferences.recentPairs}
+            />
+            <IntervalSelector
+              intervals={timeIntervals}
+              customIntervals={customTimeIntervals}
+              selectedInterval={interval}
+              onSelect={handleIntervalSelect}
+            />
+            {!showTicker && ticker && (
+              <span className="text-sm font-medium">{formatPrice(ticker.last, selectedPair)}</span>
+            )}
+          </div>
+        }
+      />
+    </div>
+  );
+};
+
+export default ChartPane;
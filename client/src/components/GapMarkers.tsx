@@ -0,0 +1,66 @@
+import React from "react";
+import { GenericChartComponent, getAxisCanvas } from "react-financial-charts";
+import { CandleGap, missingCandles } from "@/lib/gaps";
+import { OHLCData } from "@/lib/types";
+
+interface GapMarkersProps {
+  gaps: CandleGap[];
+  interval: number; // minutes, to count the missing candles
+  fillStyle?: string;
+  strokeStyle?: string;
+  textFill?: string;
+}
+
+const indexOfTime = (data: OHLCData[], time: Date): number =>
+  data.findIndex((d) => d.time.getTime() === time.getTime());
+
+/**
+ * Shades the space between the candles around each gap that could not be
+ * backfilled, labelled with the number of missing candles. Goes inside
+ * the price Chart.
+ */
+const GapMarkers: React.FC<GapMarkersProps> = ({
+  gaps,
+  interval,
+  fillStyle = "rgba(255, 193, 7, 0.12)",
+  strokeStyle = "rgba(255, 193, 7, 0.6)",
+  textFill = "rgba(255, 193, 7, 0.9)",
+}) => {
+  const drawOnCanvas = (ctx: CanvasRenderingContext2D, moreProps: any) => {
+    const { xScale, xAccessor, fullData, chartConfig } = moreProps;
+    const { height } = chartConfig;
+
+    gaps.forEach((gap) => {
+      // Gaps whose candles were trimmed from the window are not shown
+      const from = fullData[indexOfTime(fullData, gap.from)];
+      const to = fullData[indexOfTime(fullData, gap.to)];
+      if (!from || !to) return;
+
+      const x1 = Math.round(xScale(xAccessor(from)));
+      const x2 = Math.round(xScale(xAccessor(to)));
+
+      ctx.save();
+      ctx.fillStyle = fillStyle;
+      ctx.fillRect(x1, 0, x2 - x1, height);
+      ctx.strokeStyle = strokeStyle;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      [x1, x2].forEach((x) => {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      });
+      ctx.stroke();
+
+      const count = missingCandles(gap, interval);
+      ctx.fillStyle = textFill;
+      ctx.font = "11px sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText(`${count} missing`, (x1 + x2) / 2, 14);
+      ctx.restore();
+    });
+  };
+
+  return <GenericChartComponent canvasDraw={drawOnCanvas} canvasToDraw={getAxisCanvas} drawOn={["pan"]} />;
+};
+
+export default GapMarkers;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Activity, Bookmark, X } from 'lucide-react';
+import type { IndicatorSet } from '@shared/schema';
+import {
+  IndicatorConfig,
+  IndicatorType,
+  createIndicatorConfig,
+  indicatorDefinitions,
+  indicatorLabel,
+  indicatorTypes,
+} from '@/lib/indicators';
+import { validIndicators } from '@/lib/preferences';
+
+interface IndicatorControlsProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+  // Named indicator sets, shared by all charts
+  sets?: IndicatorSet[];
+  onSetsChange?: (sets: IndicatorSet[]) => void;
+}
+
+const IndicatorControls: React.FC<IndicatorControlsProps> = ({ indicators, onChange, sets = [], onSetsChange }) => {
+  const [setName, setSetName] = useState<string>('');
+
+
+  const handleAdd = (type: IndicatorType) => {
+    onChange([...indicators, createIndicatorConfig(type, indicators)]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(indicators.filter((indicator) => indicator.id !== id));
+  };
+
+  // Saving under an existing name replaces that set
+  const handleSaveSet = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = setName.trim();
+    if (!name || !onSetsChange) return;
+
+    onSetsChange([...sets.filter((set) => set.name !== name), { name, indicators }]);
+    setSetName('');
+  };
+
+  // Applied indicators get fresh ids so a set can be used on several charts
+  const handleApplySet = (set: IndicatorSet) => {
+    const applied = validIndicators(set.indicators).reduce<IndicatorConfig[]>(
+      (result, config) => [
+        ...result,
+        { ...createIndicatorConfig(config.type, result), params: { ...config.params }, color: config.color },
+      ],
+      []
+    );
+    onChange(applied);
+  };
+
+  const handleParamChange = (id: string, param: string, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) return;
+
+    onChange(indicators.map((indicator) =>
+      indicator.id === id
+        ? { ...indicator, params: { ...indicator.params, [param]: parsed } }
+        : indicator
+    ));
+  };
+
+  const renderGroup = (placement: 'overlay' | 'pane') =>
+    indicatorTypes
+      .filter((type) => indicatorDefinitions[type].placement === placement)
+      .map((type) => (
+        <DropdownMenuItem key={type} onSelect={() => handleAdd(type)}>
+          {indicatorDefinitions[type].label}
+        </DropdownMenuItem>
+      ));
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-white">
+            <Activity className="h-4 w-4 mr-1" />
+            Indicators
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Overlays</DropdownMenuLabel>
+          {renderGroup('overlay')}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Oscillators</DropdownMenuLabel>
+          {renderGroup('pane')}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {onSetsChange && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-white" title="Indicator sets">
+              <Bookmark className="h-4 w-4 mr-1" />
+              Sets
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64 space-y-3">
+            {sets.length === 0 ? (
+              <p className="text-xs text-textSecondary">No saved sets</p>
+            ) : (
+              <div className="space-y-1">
+                {sets.map((set) => (
+                  <div key={set.name} className="flex items-center justify-between gap-2 text-xs">
+                    <button
+                      className="flex-1 text-left px-2 py-1 rounded hover:bg-gray-100"
+                      onClick={() => handleApplySet(set)}
+                      title="Apply to this chart"
+                    >
+                      {set.name}
+                      <span className="text-textSecondary ml-1">({set.indicators.length})</span>
+                    </button>
+                    <button
+                      className="px-1 py-1 text-textSecondary hover:text-textPrimary"
+                      onClick={() => onSetsChange(sets.filter((other) => other.name !== set.name))}
+                      title="Delete set"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form className="flex gap-2" onSubmit={handleSaveSet}>
+              <Input
+                className="h-7 text-xs"
+                placeholder="Save current as..."
+                maxLength={64}
+                value={setName}
+                onChange={(e) => setSetName(e.target.value)}
+              />
+              <Button type="submit" size="sm" className="h-7" disabled={!setName.trim() || indicators.length === 0}>
+                Save
+              </Button>
+            </form>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {indicators.map((indicator) => {
+        const params = Object.keys(indicator.params);
+        return (
+          <div
+            key={indicator.id}
+            className="flex items-center rounded border border-gray-700 text-xs"
+            style={{ borderLeftColor: indicator.color, borderLeftWidth: 3 }}
+          >
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  className="px-2 py-1 hover:bg-gray-800 disabled:cursor-default"
+                  disabled={params.length === 0}
+                >
+                  {indicatorLabel(indicator)}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56 space-y-2">
+                {params.map((param) => (
+                  <div key={param} className="flex items-center justify-between gap-2">
+                    <Label htmlFor={`${indicator.id}-${param}`} className="text-xs capitalize">
+                      {param}
+                    </Label>
+                    <Input
+                      id={`${indicator.id}-${param}`}
+                      type="number"
+                      min={1}
+                      className="h-7 w-20 text-xs"
+                      defaultValue={indicator.params[param]}
+                      onChange={(e) => handleParamChange(indicator.id, param, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
+            <button
+              className="px-1 py-1 text-textSecondary hover:text-textPrimary"
+              onClick={() => handleRemove(indicator.id)}
+              title="Remove indicator"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IndicatorControls;
@@ -1,35 +1,67 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { ChevronDown } from 'lucide-react';
-import { TimeInterval, timeIntervals } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChevronDown, Plus } from 'lucide-react';
+import { TimeInterval } from '@/lib/types';
+import { formatInterval } from '@/lib/resample';
 
 interface IntervalSelectorProps {
   intervals: TimeInterval[];
+  customIntervals?: TimeInterval[];  // resampled from native candles
   selectedInterval: number;
   onSelect: (interval: number) => void;
   className?: string;
 }
 
+const customUnits = [
+  { label: 'min', minutes: 1 },
+  { label: 'hours', minutes: 60 },
+  { label: 'days', minutes: 1440 },
+];
+
 const IntervalSelector: React.FC<IntervalSelectorProps> = ({
   intervals,
+  customIntervals = [],
   selectedInterval,
   onSelect,
   className
 }) => {
+  const [customAmount, setCustomAmount] = useState<string>('2');
+  const [customUnit, setCustomUnit] = useState<number>(60);
+  const [isCustomOpen, setIsCustomOpen] = useState<boolean>(false);
+
   const handleChange = (value: string) => {
     const interval = parseInt(value, 10);
     onSelect(interval);
   };
 
+  const handleCustomApply = () => {
+    const amount = parseInt(customAmount, 10);
+    if (!isNaN(amount) && amount > 0) {
+      onSelect(amount * customUnit);
+      setIsCustomOpen(false);
+    }
+  };
+
+  // An interval entered by hand is listed so the select can display it
+  const isListed = [...intervals, ...customIntervals].some(interval => interval.value === selectedInterval);
+  const customOptions = isListed
+    ? customIntervals
+    : [...customIntervals, { value: selectedInterval, label: formatInterval(selectedInterval), shortLabel: formatInterval(selectedInterval) }];
+
   return (
     <div className={className}>
-      <div className="relative">
+      <div className="relative flex gap-1">
         <Select
           value={selectedInterval.toString()}
           onValueChange={handleChange}
@@ -38,13 +70,58 @@ const IntervalSelector: React.FC<IntervalSelectorProps> = ({
             <SelectValue placeholder="Select Interval" />
           </SelectTrigger>
           <SelectContent className="bg-background border-gray-700">
-            {intervals.map((interval) => (
-              <SelectItem key={interval.value} value={interval.value.toString()}>
-                {interval.label}
-              </SelectItem>
-            ))}
+            <SelectGroup>
+              <SelectLabel>Kraken</SelectLabel>
+              {intervals.map((interval) => (
+                <SelectItem key={interval.value} value={interval.value.toString()}>
+                  {interval.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {customOptions.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Custom</SelectLabel>
+                {customOptions.map((interval) => (
+                  <SelectItem key={interval.value} value={interval.value.toString()}>
+                    {interval.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
           </SelectContent>
         </Select>
+        <Popover open={isCustomOpen} onOpenChange={setIsCustomOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon" className="bg-background border-gray-700" title="Custom interval">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-60 space-y-2" align="end">
+            <div className="text-xs text-textSecondary">Custom interval</div>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-20 text-xs"
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCustomApply()}
+              />
+              <select
+                className="h-8 flex-grow rounded-md border border-gray-700 bg-background px-2 text-xs"
+                value={customUnit}
+                onChange={(e) => setCustomUnit(parseInt(e.target.value, 10))}
+              >
+                {customUnits.map((unit) => (
+                  <option key={unit.minutes} value={unit.minutes}>{unit.label}</option>
+                ))}
+              </select>
+            </div>
+            <Button size="sm" className="w-full h-8" onClick={handleCustomApply}>
+              Apply
+            </Button>
+          </PopoverContent>
+        </Popover>
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+import React, { useContext, useEffect, useRef } from "react";
+import { ChartCanvasContext, GenericComponent, getMouseCanvas } from "react-financial-charts";
+import { CursorSync } from "@/lib/cursorSync";
+import { OHLCData } from "@/lib/types";
+
+interface LinkedCursorProps {
+  sync: CursorSync;
+  id: string;  // identifies this chart as the source of cursor moves
+  strokeStyle?: string;
+}
+
+// Last visible candle starting at or before the time, so charts with
+// different intervals point at the candle containing that moment
+function candleAt(plotData: OHLCData[], time: number): OHLCData | undefined {
+  let low = 0;
+  let high = plotData.length - 1;
+  let found: OHLCData | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (plotData[middle].time.getTime() <= time) {
+      found = plotData[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Publishes the candle under the mouse and draws a vertical line at the
+ * time published by the other linked charts. Goes inside a ChartCanvas.
+ */
+const LinkedCursor: React.FC<LinkedCursorProps> = ({ sync, id, strokeStyle = "rgba(55, 71, 79, 0.8)" }) => {
+  const { margin, ratio } = useContext(ChartCanvasContext);
+  const componentRef = useRef<GenericComponent | null>(null);
+  const linkedTimeRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = sync.subscribe((time, source) => {
+      if (source === id) return;
+      linkedTimeRef.current = time;
+      componentRef.current?.drawOnCanvas();
+    });
+    return () => {
+      unsubscribe();
+      sync.publish(id, null);
+    };
+  }, [sync, id]);
+
+  const handleMouseMove = (_e: React.MouseEvent, moreProps: any) => {
+    const item: OHLCData | undefined = moreProps.currentItem;
+    sync.publish(id, moreProps.show && item ? item.time.getTime() : null);
+  };
+
+  const handleMouseLeave = () => {
+    sync.publish(id, null);
+  };
+
+  const drawOnCanvas = (ctx: CanvasRenderingContext2D, moreProps: any) => {
+    const { xScale, xAccessor, plotData, fullData, height, show } = moreProps;
+    // The chart under the mouse draws its own crosshair
+    if (show) return;
+
+    // Nothing else clears the mouse canvas of a chart that is not hovered
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.restore();
+
+    const time = linkedTimeRef.current;
+    if (time === null) return;
+    const item = candleAt(plotData, time);
+    if (!item) return;
+
+    // Past the last visible candle the time may belong to a candle off screen
+    if (item === plotData[plotData.length - 1]) {
+      const next: OHLCData | undefined = fullData[fullData.indexOf(item) + 1];
+      if (next && next.time.getTime() <= time) return;
+    }
+
+    const x = Math.round(xScale(xAccessor(item)));
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.scale(ratio, ratio);
+    ctx.translate(margin.left + 0.5 * ratio, margin.top + 0.5 * ratio);
+    ctx.strokeStyle = strokeStyle;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  return (
+    <GenericComponent
+      ref={componentRef}
+      clip={false}
+      canvasDraw={drawOnCanvas}
+      canvasToDraw={getMouseCanvas}
+      drawOn={["mousemove", "pan", "drag"]}
+      onMouseMove={handleMouseMove}
+      onUnHover={handleMouseLeave}
+    />
+  );
+};
+
+export default LinkedCursor;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart2 } from 'lucide-react';
+import { useMarketSummary } from '@/hooks/useMarketSummary';
+import { TradingPair } from '@/lib/types';
+import { formatPercent, formatPrice, formatVolume } from '@/lib/format';
+
+interface MarketSummaryPanelProps {
+  pair: TradingPair;
+}
+
+interface SummaryRowProps {
+  label: string;
+  value: string | null;
+  // Colors the value by the sign of this change
+  change?: number | null;
+}
+
+const SummaryRow: React.FC<SummaryRowProps> = ({ label, value, change }) => {
+  const color = change != null
+    ? change >= 0 ? 'text-secondary' : 'text-accent'
+    : '';
+
+  return (
+    <div className="flex justify-between items-center">
+      <span className="text-sm text-textSecondary">{label}:</span>
+      <span className={`font-mono ${color}`}>{value ?? '—'}</span>
+    </div>
+  );
+};
+
+// Figures that need more history than is available stay empty
+const optional = (value: number | null, format: (value: number) => string) =>
+  value !== null ? format(value) : null;
+
+const MarketSummaryPanel: React.FC<MarketSummaryPanelProps> = ({ pair }) => {
+  const { summary, error } = useMarketSummary(pair);
+  const { base, quote } = pair;
+
+  return (
+    <Card className="bg-surface shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-medium flex items-center">
+          <BarChart2 className="h-4 w-4 mr-2 text-primary" />
+          Market Summary
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!summary ? (
+          <div className="text-xs text-textSecondary py-4 text-center">
+            {error ?? 'Loading market summary...'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <SummaryRow label="Open (UTC day)" value={formatPrice(summary.openToday, pair)} />
+            <SummaryRow label="High 24h" value={formatPrice(summary.high24h, pair)} />
+            <SummaryRow label="Low 24h" value={formatPrice(summary.low24h, pair)} />
+            <SummaryRow label={`Volume 24h (${base})`} value={formatVolume(summary.volumeBase)} />
+            <SummaryRow label={`Volume 24h (${quote})`} value={formatVolume(summary.volumeQuote)} />
+            <SummaryRow label="7d Change" value={optional(summary.change7d, formatPercent)} change={summary.change7d} />
+            <SummaryRow label="30d Change" value={optional(summary.change30d, formatPercent)} change={summary.change30d} />
+            <SummaryRow label="30d High" value={optional(summary.high30d, value => formatPrice(value, pair))} />
+            <SummaryRow label="30d Low" value={optional(summary.low30d, value => formatPrice(value, pair))} />
+            <SummaryRow label="30d Volatility" value={optional(summary.volatility30d, value => formatPercent(value, false))} />
+            <p className="text-xs text-textSecondary pt-1">
+              From Kraken ticker and daily candles. Quote volume is estimated from the 24h VWAP.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarketSummaryPanel;
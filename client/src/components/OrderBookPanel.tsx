@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { BookOpen } from 'lucide-react';
+import { useOrderBook } from '@/hooks/useOrderBook';
+import { OrderBookDepth, orderBookDepths } from '@/lib/orderBook';
+import { OrderBookEntry, TradingPair } from '@/lib/types';
+import { formatAmount, formatPrice } from '@/lib/format';
+
+interface OrderBookPanelProps {
+  pair: TradingPair;
+}
+
+interface BookSideProps {
+  entries: OrderBookEntry[];
+  side: 'bid' | 'ask';
+  pair: TradingPair;
+}
+
+const BookSide: React.FC<BookSideProps> = ({ entries, side, pair }) => (
+  <div className="space-y-1">
+    {entries.map((entry) => (
+      <div key={entry.price} className="flex justify-between text-xs relative">
+        <span className={`${side === 'bid' ? 'text-secondary' : 'text-accent'} z-10`}>{formatPrice(entry.price, pair)}</span>
+        <span className="z-10">{formatAmount(entry.amount, pair)}</span>
+        <span className="z-10 text-textSecondary">{formatAmount(entry.total, pair)}</span>
+        <div
+          className={`absolute ${side === 'bid' ? 'right-0 bg-secondary' : 'left-0 bg-accent'} h-full bg-opacity-10`}
+          style={{ width: `${entry.percentage}%` }}
+        ></div>
+      </div>
+    ))}
+  </div>
+);
+
+const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ pair }) => {
+  const [depth, setDepth] = useState<OrderBookDepth>(10);
+  const { orderBook, isSynced } = useOrderBook(pair, depth);
+
+  return (
+    <Card className="bg-surface shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base font-medium flex items-center">
+            <BookOpen className="h-4 w-4 mr-2 text-primary" />
+            Order Book
+          </CardTitle>
+          <div className="flex gap-1">
+            {orderBookDepths.map((option) => (
+              <Button
+                key={option}
+                variant={depth === option ? 'secondary' : 'outline'}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setDepth(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!isSynced ? (
+          <div className="text-xs text-textSecondary py-4 text-center">Syncing order book...</div>
+        ) : (
+          <div className="flex max-h-80 overflow-y-auto">
+            <div className="w-1/2 pr-1">
+              <div className="flex justify-between text-xs text-textSecondary pb-2">
+                <span>Price</span>
+                <span>Amount</span>
+                <span>Total</span>
+              </div>
+              {/* Bids */}
+              <BookSide entries={orderBook.bids} side="bid" pair={pair} />
+            </div>
+            <div className="w-1/2 pl-1">
+              <div className="flex justify-between text-xs text-textSecondary pb-2">
+                <span>Price</span>
+                <span>Amount</span>
+                <span>Total</span>
+              </div>
+              {/* Asks */}
+              <BookSide entries={orderBook.asks} side="ask" pair={pair} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderBookPanel;
@@ -1,52 +1,150 @@
-import React from 'react';
-import { 
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import { ChevronDown } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { defaultFilter } from 'cmdk';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ChevronsUpDown, Star } from 'lucide-react';
 import { TradingPair } from '@/lib/types';
+import { groupPairsByQuote, pairsById } from '@/lib/pairs';
 
 interface PairSelectorProps {
   pairs: TradingPair[];
-  selectedPair: TradingPair;
+  selectedPair?: TradingPair | null;
   onSelect: (pair: TradingPair) => void;
+  // Pair ids listed first, toggled with the star next to the selector
+  favorites?: string[];
+  onToggleFavorite?: (pair: TradingPair) => void;
+  // Pair ids picked lately, most recent first
+  recent?: string[];
+  placeholder?: string;
   className?: string;
 }
 
+// A pair can be listed in several groups, so items are told apart by their
+// value and matched on the keywords only
+const matchKeywords = (_value: string, search: string, keywords?: string[]) =>
+  defaultFilter(keywords?.join(' ') ?? '', search);
+
+const pairKeywords = (pair: TradingPair) => [pair.name, `${pair.base}${pair.quote}`, pair.base, pair.quote];
+
+interface PairItemProps {
+  group: string;
+  pair: TradingPair;
+  isFavorite: boolean;
+  onSelect: (pair: TradingPair) => void;
+}
+
+const PairItem: React.FC<PairItemProps> = ({ group, pair, isFavorite, onSelect }) => (
+  <CommandItem
+    value={`${group}:${pair.id}`}
+    keywords={pairKeywords(pair)}
+    onSelect={() => onSelect(pair)}
+  >
+    <span className="flex-1">{pair.name}</span>
+    {isFavorite && <Star className="h-3 w-3 fill-current text-yellow-500" />}
+  </CommandItem>
+);
+
 const PairSelector: React.FC<PairSelectorProps> = ({
   pairs,
   selectedPair,
   onSelect,
+  favorites = [],
+  onToggleFavorite,
+  recent = [],
+  placeholder = 'Select Trading Pair',
   className
 }) => {
-  const handleChange = (value: string) => {
-    const pair = pairs.find(p => p.id === value);
-    if (pair) {
-      onSelect(pair);
-    }
+  const [open, setOpen] = useState<boolean>(false);
+  const [search, setSearch] = useState<string>('');
+
+  const groups = useMemo(() => groupPairsByQuote(pairs), [pairs]);
+  const favoritePairs = pairsById(favorites, pairs);
+  const recentPairs = pairsById(recent.filter(id => !favorites.includes(id)), pairs);
+  const isFavorite = selectedPair ? favorites.includes(selectedPair.id) : false;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setSearch('');
+  };
+
+  const handleSelect = (pair: TradingPair) => {
+    handleOpenChange(false);
+    onSelect(pair);
   };
 
   return (
     <div className={className}>
-      <div className="relative">
-        <Select
-          value={selectedPair.id}
-          onValueChange={handleChange}
-        >
-          <SelectTrigger className="bg-background border-gray-700 focus:ring-primary focus:ring-1 w-full sm:w-48">
-            <SelectValue placeholder="Select Trading Pair" />
-          </SelectTrigger>
-          <SelectContent className="bg-background border-gray-700 text-white">
-            {pairs.map((pair) => (
-              <SelectItem key={pair.id} value={pair.id} className='text-white'>
-                {pair.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+      <div className="relative flex items-center gap-1">
+        <Popover open={open} onOpenChange={handleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              role="combobox"
+              aria-expanded={open}
+              className="h-10 w-full sm:w-48 justify-between font-normal"
+            >
+              {selectedPair?.name ?? <span className="text-muted-foreground">{placeholder}</span>}
+              <ChevronsUpDown className="h-4 w-4 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64 p-0">
+            <Command filter={matchKeywords}>
+              <CommandInput placeholder="Search pairs..." value={search} onValueChange={setSearch} />
+              <CommandList>
+                <CommandEmpty>No pairs found</CommandEmpty>
+                {/* Shortcuts only while browsing, search results are grouped by quote */}
+                {!search && favoritePairs.length > 0 && (
+                  <CommandGroup heading="Favorites">
+                    {favoritePairs.map(pair => (
+                      <PairItem key={pair.id} group="favorite" pair={pair} isFavorite onSelect={handleSelect} />
+                    ))}
+                  </CommandGroup>
+                )}
+                {!search && recentPairs.length > 0 && (
+                  <CommandGroup heading="Recent">
+                    {recentPairs.map(pair => (
+                      <PairItem key={pair.id} group="recent" pair={pair} isFavorite={false} onSelect={handleSelect} />
+                    ))}
+                  </CommandGroup>
+                )}
+                {!search && (favoritePairs.length > 0 || recentPairs.length > 0) && <CommandSeparator />}
+                {groups.map(({ quote, pairs: quotePairs }) => (
+                  <CommandGroup key={quote} heading={quote}>
+                    {quotePairs.map(pair => (
+                      <PairItem
+                        key={pair.id}
+                        group={quote}
+                        pair={pair}
+                        isFavorite={favorites.includes(pair.id)}
+                        onSelect={handleSelect}
+                      />
+                    ))}
+                  </CommandGroup>
+                ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+        {onToggleFavorite && selectedPair && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onToggleFavorite(selectedPair)}
+            title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            <Star className={`h-4 w-4 ${isFavorite ? 'fill-current text-yellow-500' : ''}`} />
+          </Button>
+        )}
       </div>
     </div>
   );
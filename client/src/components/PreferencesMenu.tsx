@@ -0,0 +1,100 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Settings } from 'lucide-react';
+import { usePreferences } from '@/hooks/usePreferences';
+import { timeIntervals } from '@/lib/types';
+import { customTimeIntervals, formatInterval } from '@/lib/resample';
+import type { Preferences } from '@shared/schema';
+
+const themeLabels: Record<Preferences['theme'], string> = {
+  light: 'Light',
+  dark: 'Dark',
+  system: 'System',
+};
+
+// Defaults for charts that have no saved selection of their own
+const PreferencesMenu: React.FC = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const intervals = [...timeIntervals, ...customTimeIntervals].sort((a, b) => a.value - b.value);
+  // Keep a default set to an interval that is no longer offered selectable
+  if (!intervals.some(option => option.value === preferences.defaultInterval)) {
+    intervals.push({
+      value: preferences.defaultInterval,
+      label: formatInterval(preferences.defaultInterval),
+      shortLabel: formatInterval(preferences.defaultInterval),
+    });
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8" title="Preferences">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs">Theme</Label>
+          <Select
+            value={preferences.theme}
+            onValueChange={(value) => updatePreferences({ theme: value as Preferences['theme'] })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(themeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs">Default interval</Label>
+          <Select
+            value={preferences.defaultInterval.toString()}
+            onValueChange={(value) => updatePreferences({ defaultInterval: parseInt(value, 10) })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {intervals.map(option => (
+                <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs">Chart type</Label>
+          <Select
+            value={preferences.chartType}
+            onValueChange={(value) => updatePreferences({ chartType: value as Preferences['chartType'] })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="candles">Candles</SelectItem>
+              <SelectItem value="line">Line</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-textSecondary">
+          Used by charts without a saved pair or interval of their own.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PreferencesMenu;
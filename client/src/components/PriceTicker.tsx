@@ -1,14 +1,15 @@
 import React from 'react';
-import { Ticker } from '@/lib/types';
+import { Ticker, TradingPair } from '@/lib/types';
+import { formatPercent, formatPrice, formatPriceChange, formatVolume } from '@/lib/format';
 import { Card, CardContent } from '@/components/ui/card';
 
 interface PriceTickerProps {
   ticker: Ticker | null;
-  pairName: string;
+  pair: TradingPair;
   isLoading: boolean;
 }
 
-const PriceTicker: React.FC<PriceTickerProps> = ({ ticker, pairName, isLoading }) => {
+const PriceTicker: React.FC<PriceTickerProps> = ({ ticker, pair, isLoading }) => {
   // if (isLoading || !ticker) {
   //   return (
   //     <Card className="bg-surface rounded-lg shadow-lg mb-4">
@@ -32,33 +33,38 @@ const PriceTicker: React.FC<PriceTickerProps> = ({ ticker, pairName, isLoading }
   //   );
   // }
 
-  const isPriceUp = ticker?.change.startsWith('+');
+  const last = ticker ? parseFloat(ticker.last) : NaN;
+  const open = ticker ? parseFloat(ticker.open) : NaN;
+  const change = last - open;
+  const isPriceUp = change >= 0;
 
   return (
     <Card className="bg-surface rounded-lg shadow-lg mb-4">
       <CardContent className="p-4">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between">
           <div>
-            <div className="text-textSecondary text-sm">{pairName}</div>
+            <div className="text-textSecondary text-sm">{pair.name}</div>
             <div className="flex items-baseline">
-              <span className="text-2xl font-mono font-medium">{ticker?.last}</span>
-              <span className={`ml-2 font-mono text-sm ${isPriceUp ? 'text-secondary' : 'text-accent'}`}>
-                {ticker?.change} ({ticker?.changePercent})
-              </span>
+              <span className="text-2xl font-mono font-medium">{ticker && formatPrice(ticker.last, pair)}</span>
+              {ticker && open > 0 && (
+                <span className={`ml-2 font-mono text-sm ${isPriceUp ? 'text-secondary' : 'text-accent'}`}>
+                  {formatPriceChange(change, pair)} ({formatPercent((change / open) * 100)})
+                </span>
+              )}
             </div>
           </div>
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-3 sm:mt-0">
             <div className="price-stat">
               <div className="text-textSecondary text-xs">24h High</div>
-              <div className="font-mono text-sm">{ticker?.high}</div>
+              <div className="font-mono text-sm">{ticker && formatPrice(ticker.high, pair)}</div>
             </div>
             <div className="price-stat">
               <div className="text-textSecondary text-xs">24h Low</div>
-              <div className="font-mono text-sm">{ticker?.low}</div>
+              <div className="font-mono text-sm">{ticker && formatPrice(ticker.low, pair)}</div>
             </div>
             <div className="price-stat">
               <div className="text-textSecondary text-xs">24h Volume</div>
-              <div className="font-mono text-sm">{ticker?.volume} BTC</div>
+              <div className="font-mono text-sm">{ticker && `${formatVolume(ticker.volume)} ${pair.base}`}</div>
             </div>
             <div className="price-stat">
               <div className="text-textSecondary text-xs">Updated</div>
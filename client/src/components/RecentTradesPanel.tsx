@@ -0,0 +1,102 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeftRight, Pause } from 'lucide-react';
+import { useTrades } from '@/hooks/useTrades';
+import { Trade, TradingPair } from '@/lib/types';
+import { formatAmount, formatPrice } from '@/lib/format';
+
+interface RecentTradesPanelProps {
+  pair: TradingPair;
+}
+
+// Trades this many times the median size are highlighted as large prints
+const LARGE_TRADE_MULTIPLE = 5;
+
+function medianAmount(trades: Trade[]): number {
+  if (trades.length === 0) return 0;
+  const amounts = trades.map(trade => parseFloat(trade.amount)).sort((a, b) => a - b);
+  const middle = Math.floor(amounts.length / 2);
+  return amounts.length % 2 ? amounts[middle] : (amounts[middle - 1] + amounts[middle]) / 2;
+}
+
+const RecentTradesPanel: React.FC<RecentTradesPanelProps> = ({ pair }) => {
+  const { trades, isLoading } = useTrades(pair);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const frozenTradesRef = useRef<Trade[]>([]);
+
+  // Freeze the tape while hovering so rows don't move under the cursor
+  const handleMouseEnter = () => {
+    frozenTradesRef.current = trades;
+    setIsPaused(true);
+  };
+
+  const handleMouseLeave = () => {
+    setIsPaused(false);
+  };
+
+  const visibleTrades = isPaused ? frozenTradesRef.current : trades;
+  const largeTradeThreshold = useMemo(
+    () => medianAmount(visibleTrades) * LARGE_TRADE_MULTIPLE,
+    [visibleTrades]
+  );
+
+  return (
+    <Card className="bg-surface shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base font-medium flex items-center">
+            <ArrowLeftRight className="h-4 w-4 mr-2 text-primary" />
+            Recent Trades
+          </CardTitle>
+          {isPaused && (
+            <span className="text-xs text-textSecondary flex items-center">
+              <Pause className="h-3 w-3 mr-1" />
+              Paused
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div
+          className="max-h-80 overflow-y-auto"
+          onMouseEnter={handleMouseEnter}
+          onMouseLeave={handleMouseLeave}
+        >
+          <table className="min-w-full">
+            <thead>
+              <tr>
+                <th className="text-left text-xs text-textSecondary pb-2">Time</th>
+                <th className="text-right text-xs text-textSecondary pb-2">Price</th>
+                <th className="text-right text-xs text-textSecondary pb-2">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleTrades.map((trade, index) => {
+                const isLarge = largeTradeThreshold > 0 && parseFloat(trade.amount) >= largeTradeThreshold;
+                return (
+                  <tr
+                    key={`${trade.timestamp}-${index}`}
+                    className={`border-t border-gray-800 ${isLarge ? 'font-semibold bg-primary bg-opacity-5' : ''}`}
+                  >
+                    <td className="py-2 text-xs">{trade.time}</td>
+                    <td className={`py-2 text-xs text-right ${trade.direction === 'buy' ? 'text-secondary' : 'text-accent'}`}>
+                      {formatPrice(trade.price, pair)}
+                    </td>
+                    <td className={`py-2 text-xs text-right ${isLarge ? '' : 'text-textSecondary'}`}>
+                      {formatAmount(trade.amount, pair)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!isLoading && visibleTrades.length === 0 && (
+            <div className="text-xs text-textSecondary py-4 text-center">No trades yet</div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecentTradesPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+// Minimal line chart scaled to the range of the values, drawn in the text color
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 80, height = 24, className }) => {
+  if (values.length < 2) {
+    return <svg width={width} height={height} className={className} />;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - 1 - ((value - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className={className}>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Check, ListPlus, Plus, Trash2, X } from 'lucide-react';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useWatchlistTickers } from '@/hooks/useWatchlistTickers';
+import { fetchTradingPairs } from '@/lib/krakenApi';
+import { pairsById } from '@/lib/pairs';
+import { formatPercent, formatPrice } from '@/lib/format';
+import { TradingPair, defaultTradingPairs } from '@/lib/types';
+import type { Watchlist } from '@shared/schema';
+import Sparkline from './Sparkline';
+import PairSelector from './PairSelector';
+
+interface WatchlistPanelProps {
+  activePair: TradingPair;
+  onSelectPair: (pair: TradingPair) => void;
+}
+
+function createWatchlistId(existing: Watchlist[]): string {
+  let id = `watchlist-${Date.now().toString(36)}`;
+  while (existing.some(watchlist => watchlist.id === id)) {
+    id = `${id}-1`;
+  }
+  return id;
+}
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ activePair, onSelectPair }) => {
+  const { preferences, updatePreferences } = usePreferences();
+  const [availablePairs, setAvailablePairs] = useState<TradingPair[]>(defaultTradingPairs);
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const { watchlists } = preferences;
+  const watchlist = watchlists.find(entry => entry.id === preferences.activeWatchlist) ?? watchlists[0];
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTradingPairs()
+      .then(pairs => {
+        if (!cancelled && pairs.length > 0) setAvailablePairs(pairs);
+      })
+      .catch(() => {
+        // Keep the default pairs
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Saved pair ids this build can't resolve are left out
+  const pairs = useMemo(
+    () => pairsById(watchlist?.pairs ?? [], availablePairs),
+    [watchlist, availablePairs]
+  );
+  const addablePairs = availablePairs.filter(pair => !watchlist?.pairs.includes(pair.id));
+
+  const { tickers } = useWatchlistTickers(pairs);
+
+  const saveWatchlist = (next: Watchlist) => {
+    updatePreferences({
+      watchlists: watchlists.map(entry => (entry.id === next.id ? next : entry)),
+    });
+  };
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName?.trim();
+    if (!name) return;
+
+    const created: Watchlist = { id: createWatchlistId(watchlists), name, pairs: [] };
+    updatePreferences({ watchlists: [...watchlists, created], activeWatchlist: created.id });
+    setNewName(null);
+  };
+
+  const handleDelete = () => {
+    if (!watchlist) return;
+    const remaining = watchlists.filter(entry => entry.id !== watchlist.id);
+    updatePreferences({ watchlists: remaining, activeWatchlist: remaining[0]?.id });
+  };
+
+  const handleAddPair = (pair: TradingPair) => {
+    if (!watchlist) return;
+    saveWatchlist({ ...watchlist, pairs: [...watchlist.pairs, pair.id] });
+  };
+
+  const handleRemovePair = (event: React.MouseEvent, id: string) => {
+    event.stopPropagation(); // don't load the pair into the chart
+    if (!watchlist) return;
+    saveWatchlist({ ...watchlist, pairs: watchlist.pairs.filter(pairId => pairId !== id) });
+  };
+
+  return (
+    <Card className="bg-surface shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap gap-2 justify-between items-center">
+          <CardTitle className="text-base font-medium flex items-center">
+            <ListPlus className="h-4 w-4 mr-2 text-primary" />
+            Watchlists
+          </CardTitle>
+          <div className="flex gap-2 items-center">
+            {newName !== null ? (
+              <form className="flex gap-1" onSubmit={handleCreate}>
+                <Input
+                  autoFocus
+                  className="h-8 w-40"
+                  placeholder="Watchlist name"
+                  maxLength={64}
+                  value={newName}
+                  onChange={(event) => setNewName(event.target.value)}
+                />
+                <Button type="submit" variant="outline" size="sm" className="h-8 w-8 p-0" disabled={!newName.trim()} title="Create">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setNewName(null)} title="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              </form>
+            ) : (
+              <>
+                {watchlist && (
+                  <Select
+                    value={watchlist.id}
+                    onValueChange={(id) => updatePreferences({ activeWatchlist: id })}
+                  >
+                    <SelectTrigger className="h-8 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {watchlists.map(entry => (
+                        <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" size="sm" className="h-8" onClick={() => setNewName('')} title="New watchlist">
+                  <Plus className="h-4 w-4" />
+                </Button>
+                {watchlist && (
+                  <Button variant="outline" size="sm" className="h-8" onClick={handleDelete} title="Delete watchlist">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!watchlist ? (
+          <div className="text-xs text-textSecondary py-4 text-center">
+            Create a watchlist to follow several pairs at once
+          </div>
+        ) : (
+          <>
+            <PairSelector
+              className="mb-2"
+              pairs={addablePairs}
+              onSelect={handleAddPair}
+              favorites={preferences.favoritePairs}
+              recent={preferences.recentPairs}
+              placeholder="Add pair"
+            />
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className="text-left text-xs text-textSecondary pb-2">Pair</th>
+                  <th className="text-right text-xs text-textSecondary pb-2">Last</th>
+                  <th className="text-right text-xs text-textSecondary pb-2">24h</th>
+                  <th className="text-right text-xs text-textSecondary pb-2">Trend</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.map(pair => {
+                  const ticker = tickers[pair.id];
+                  const change = ticker?.changePercent ?? null;
+                  const color = change === null ? 'text-textSecondary' : change >= 0 ? 'text-secondary' : 'text-accent';
+                  return (
+                    <tr
+                      key={pair.id}
+                      className={`border-t border-gray-800 cursor-pointer hover:bg-primary hover:bg-opacity-5 ${pair.id === activePair.id ? 'font-semibold' : ''}`}
+                      onClick={() => onSelectPair(pair)}
+                      title="Show in the chart"
+                    >
+                      <td className="py-2 text-xs">{pair.name}</td>
+                      <td className="py-2 text-xs text-right font-mono">{ticker?.last != null ? formatPrice(ticker.last, pair) : '—'}</td>
+                      <td className={`py-2 text-xs text-right font-mono ${color}`}>
+                        {change === null ? '—' : formatPercent(change)}
+                      </td>
+                      <td className={`py-2 text-right ${color}`}>
+                        <Sparkline values={ticker?.sparkline ?? []} className="inline-block" />
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={(event) => handleRemovePair(event, pair.id)}
+                          title="Remove from watchlist"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {pairs.length === 0 && (
+              <div className="text-xs text-textSecondary py-4 text-center">No pairs in this watchlist yet</div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WatchlistPanel;
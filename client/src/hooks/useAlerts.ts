@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Alert, InsertAlert, UpdateAlert } from '@shared/schema';
+import type { ServerMessage } from '@shared/protocol';
+import { apiRequest } from '@/lib/queryClient';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { toast } from '@/hooks/use-toast';
+
+// Alerts live on the server, which evaluates them even while no browser is
+// open. Triggers are pushed over the shared WebSocket and shown as toasts.
+export function useAlerts() {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await apiRequest('GET', '/api/alerts');
+      setAlerts(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleMessage = useCallback((event: ServerMessage) => {
+    if (event.type !== 'alert') return;
+
+    setAlerts(current => current.map(alert => (alert.id === event.alert.id ? event.alert : alert)));
+    toast({
+      title: event.alert.note ? `Alert: ${event.alert.note}` : 'Price alert',
+      description: event.message,
+    });
+  }, []);
+
+  // Triggers that fired while we were disconnected are only in storage
+  useWebSocket(handleMessage, refresh);
+
+  const createAlert = useCallback(async (alert: InsertAlert) => {
+    const response = await apiRequest('POST', '/api/alerts', alert);
+    const created: Alert = await response.json();
+    setAlerts(current => [...current, created]);
+    return created;
+  }, []);
+
+  const updateAlert = useCallback(async (id: number, changes: UpdateAlert) => {
+    const response = await apiRequest('PATCH', `/api/alerts/${id}`, changes);
+    const updated: Alert = await response.json();
+    setAlerts(current => current.map(alert => (alert.id === id ? updated : alert)));
+    return updated;
+  }, []);
+
+  const deleteAlert = useCallback(async (id: number) => {
+    await apiRequest('DELETE', `/api/alerts/${id}`);
+    setAlerts(current => current.filter(alert => alert.id !== id));
+  }, []);
+
+  return { alerts, error, refresh, createAlert, updateAlert, deleteAlert };
+}
@@ -0,0 +1,67 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { sharedSocket } from '@/lib/sharedSocket';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// The signed in user, or null when the session is missing or expired
+export function useAuth() {
+  const { data: user, isLoading, error } = useQuery<AuthUser | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return (await response.json()) as AuthUser;
+    },
+    onSuccess: (signedIn) => {
+      queryClient.setQueryData(ME_QUERY_KEY, signedIn);
+      // Alert triggers are pushed to the sockets of their owner
+      sharedSocket.reconnect();
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const response = await apiRequest('POST', '/api/auth/register', credentials);
+      return (await response.json()) as AuthUser;
+    },
+    onSuccess: (registered) => {
+      queryClient.setQueryData(ME_QUERY_KEY, registered);
+      sharedSocket.reconnect();
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user should outlive the session
+      queryClient.clear();
+      queryClient.setQueryData(ME_QUERY_KEY, null);
+      sharedSocket.reconnect();
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    error,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
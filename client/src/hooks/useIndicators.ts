@@ -0,0 +1,33 @@
+import { useMemo, useRef } from 'react';
+import { IndicatorConfig, IndicatorPoint, IndicatorSeries } from '@/lib/indicators';
+import { OHLCData } from '@/lib/types';
+
+// Indicator values per config id, aligned with the candles in data.
+// A new seriesKey, e.g. another pair, starts every indicator over.
+export function useIndicators(
+  data: OHLCData[],
+  indicators: IndicatorConfig[],
+  seriesKey?: string
+): Record<string, IndicatorPoint[]> {
+  // Series are kept between renders so live updates are computed incrementally
+  const seriesRef = useRef({ key: seriesKey, series: new Map<string, IndicatorSeries>() });
+
+  return useMemo(() => {
+    const previous = seriesRef.current.key === seriesKey ? seriesRef.current.series : new Map<string, IndicatorSeries>();
+    const series = new Map<string, IndicatorSeries>();
+    const values: Record<string, IndicatorPoint[]> = {};
+
+    indicators.forEach((config) => {
+      let current = previous.get(config.id);
+      if (!current || current.type !== config.type ||
+          JSON.stringify(current.params) !== JSON.stringify(config.params)) {
+        current = new IndicatorSeries(config.type, config.params);
+      }
+      series.set(config.id, current);
+      values[config.id] = current.compute(data);
+    });
+
+    seriesRef.current = { key: seriesKey, series };
+    return values;
+  }, [data, indicators, seriesKey]);
+}
@@ -1,128 +1,138 @@
-import { useState, useEffect, useCallback } from 'react';
-import { 
-  fetchHistoricalOHLC, 
-  fetchTickerInfo, 
-  fetchTradingPairs, 
-  parseOHLCUpdate 
-} from '@/lib/krakenApi';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ServerMessage } from '@shared/protocol';
+import { fetchHistoricalOHLC, parseOHLCUpdate } from '@/lib/krakenApi';
+import { queryClient } from '@/lib/queryClient';
 import { useWebSocket } from './useWebSocket';
+import { useTradingPairs } from './useTradingPairs';
+import { tickerQueryKey, useTicker } from './useTicker';
+import { LiveResampler, baseIntervalFor, isCustomInterval, resampleCandles } from '@/lib/resample';
+import { CandleGap, gapBetween, mergeCandles, remainingGaps } from '@/lib/gaps';
 import { 
   OHLCData, 
   TradingPair, 
   Ticker, 
-  defaultTradingPairs 
+  KrakenWebSocketSubscription,
+  defaultTradingPairs
 } from '@/lib/types';
 
-export function useKrakenData() {
+interface UseKrakenDataOptions {
+  // Most candles kept in memory, live and scrolled-back history combined
+  maxCandles?: number;
+  // Selection to start from, usually restored from the preferences
+  initialPairId?: string;
+  initialInterval?: number;
+  initialChartType?: 'candles' | 'line';
+}
+
+// Gaps still open after a backfill are tried once more after this delay,
+// the server may not have synced the missing candles from Kraken yet
+const GAP_RETRY_DELAY = 15000;
+const GAP_REPAIR_ATTEMPTS = 2;
+
+// Scale the candle window with the device memory reported by the browser
+// (navigator.deviceMemory is in GB and only exposed by Chromium browsers)
+function defaultCandleWindow(): number {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+  return Math.min(50000, Math.max(2000, Math.round(deviceMemory * 2500)));
+}
+
+export function useKrakenData(options: UseKrakenDataOptions = {}) {
+  const maxCandles = options.maxCandles ?? defaultCandleWindow();
+  // Only read on mount, later changes come through the setters
+  const initialRef = useRef(options);
   const [ohlcData, setOhlcData] = useState<OHLCData[]>([]);
   const [lastTimestamp, setLastTimestamp] = useState<number | null>(null);
-  const [ticker, setTicker] = useState<Ticker | null>(null);
-  const [selectedPair, setSelectedPair] = useState<TradingPair>(defaultTradingPairs[0]);
-  const [interval, setInterval] = useState<number>(5); // 5 minutes default
-  const [availablePairs, setAvailablePairs] = useState<TradingPair[]>(defaultTradingPairs);
+  const [selectedPair, setSelectedPair] = useState<TradingPair>(
+    () => defaultTradingPairs.find(pair => pair.id === options.initialPairId) ?? defaultTradingPairs[0]
+  );
+  const [interval, setInterval] = useState<number>(options.initialInterval ?? 5); // 5 minutes default
+  // Pairs and tickers are shared with the other panes, only the candles are per pane
+  const { pairs: availablePairs, isLoaded: pairsLoaded } = useTradingPairs();
+  const ticker = useTicker(selectedPair);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [isChartType, setChartType] = useState<'candles' | 'line'>('candles');
+  const [isChartType, setChartType] = useState<'candles' | 'line'>(options.initialChartType ?? 'candles');
+  const [isLoadingOlder, setIsLoadingOlder] = useState<boolean>(false);
+  // Start time of the oldest candle the server has, once we paged back to it
+  const [historyStart, setHistoryStart] = useState<number | null>(null);
+  // Interval of the candles the live stream is actually delivering
+  const [liveInterval, setLiveInterval] = useState<number | null>(null);
+  // Holes in the series that backfilling could not fill
+  const [gaps, setGaps] = useState<CandleGap[]>([]);
+  
+  // Latest values for callbacks that must not be recreated on every candle
+  const ohlcDataRef = useRef<OHLCData[]>([]);
+  ohlcDataRef.current = ohlcData;
+  const seriesKeyRef = useRef<string>('');
+  const loadingOlderRef = useRef<boolean>(false);
+  // Custom intervals are built from the native interval that divides them
+  const sourceInterval = baseIntervalFor(interval);
+  const resamplerRef = useRef<LiveResampler | null>(null);
+  // The series live updates are accepted for, and the subscription serving it
+  const liveSeriesRef = useRef({ pairId: selectedPair.id, pair: selectedPair.wsname, interval: sourceInterval });
+  const subscriptionRef = useRef<KrakenWebSocketSubscription | null>(null);
+  // Gap repairs are started from the message handler, which is never recreated
+  const repairGapRef = useRef<(gap: CandleGap) => void>(() => {});
+  const gapRetriesRef = useRef<number[]>([]);
 
   // Process WebSocket messages
-  const handleWsMessage = useCallback((message: any) => {
+  const handleWsMessage = useCallback((message: ServerMessage) => {
     try {
-      // Skip status messages that are handled by the WebSocket hook
-      if (typeof message === 'object' && message?.type === 'status') {
-        return;
-      }
-      
-      // Handle message as string (from binary data)
-      if (typeof message === 'string') {
-        try {
-          message = JSON.parse(message);
-        } catch (e) {
-          console.warn('Unable to parse WebSocket message as JSON:', e);
-          return;
-        }
-      }
+      // Handle OHLC updates for the selected series. Updates of the previous
+      // pair or interval can still arrive right after switching.
+      const update = parseOHLCUpdate(message);
+      if (update &&
+          update.pair === liveSeriesRef.current.pair &&
+          update.interval === liveSeriesRef.current.interval) {
+        // Live updates of the base interval become the forming custom candle
+        const candle = resamplerRef.current
+          ? resamplerRef.current.update(update.candle)
+          : update.candle;
+        setLiveInterval(update.interval);
 
-      // Handle subscription confirmation messages
-      if (Array.isArray(message) && message[1]?.channelName === 'ohlc') {
-        // console.log('Successfully subscribed to OHLC channel:', message);
-        return;
-      }
+        // A new candle more than one interval after the last one means
+        // candles were missed while the stream was down
+        const last = ohlcDataRef.current[ohlcDataRef.current.length - 1];
+        const gap = last && gapBetween(last.time, candle.time, resamplerRef.current?.minutes ?? update.interval);
+        if (gap) repairGapRef.current(gap);
 
-      // Handle subscription status messages
-      if (message && typeof message === 'object' && message.status === 'subscribed') {
-        // console.log('Subscription confirmed:', message);
-        return;
-      }
-      
-      // Handle OHLC update messages (format depends on exact response type from Kraken)
-      if (Array.isArray(message) && 
-         (message[2] === 'ohlc' || // Handle standard format
-          (message[0] && typeof message[0] === 'number'))) { // Handle channel ID format
-        
-        const update = parseOHLCUpdate(message);
-        
-        if (update) {
-          setOhlcData(prevData => {
-            // Handle both updates to existing candles and new candles
-            const lastIndex = prevData.length - 1;
-            
-            // If the last candle has the same timestamp, update it
-            if (lastIndex >= 0 && prevData[lastIndex].time.getTime() === update.time.getTime()) {
-              const updatedData = [...prevData];
-              updatedData[lastIndex] = update;
-              return updatedData;
-            } 
-            // Otherwise add the new candle and maintain a reasonable length
-            else {
-              // Keep up to 500 candles to avoid excessive memory usage
-              const newData = [...prevData, update]; 
-              return newData.slice(-500);
-            }
-          });
+        setOhlcData(prevData => {
+          // Handle both updates to existing candles and new candles
+          const lastIndex = prevData.length - 1;
           
-          // Update ticker data with the latest price
-          setTicker(prev => {
-            if (prev) {
-              return {
-                ...prev,
-                last: update.close.toString(),
-                updated: new Date().toLocaleTimeString()
-              };
-            }
-            return prev;
-          });
-        }
-      }
-      
-      // Handle heartbeat and system messages
-      if (Array.isArray(message)) {
-        if (message[1] === 'heartbeat') {
-          // console.log('Received heartbeat from Kraken');
-        } else if (message[1] === 'systemStatus') {
-          // console.log('Kraken system status:', message[2]);
-        } else if (message[1] === 'error') {
-          // console.error('Kraken WebSocket error:', message[2]);
-          // You might want to handle specific errors here
-        }
+          // If the last candle has the same timestamp, update it
+          if (lastIndex >= 0 && prevData[lastIndex].time.getTime() === candle.time.getTime()) {
+            const updatedData = [...prevData];
+            updatedData[lastIndex] = candle;
+            return updatedData;
+          } 
+          // Otherwise add the new candle, dropping the oldest ones once the
+          // window is full (they can be scrolled back in from the server)
+          else {
+            const newData = [...prevData, candle]; 
+            return newData.length > maxCandles ? newData.slice(-maxCandles) : newData;
+          }
+        });
+        
+        // Update ticker data with the latest price
+        queryClient.setQueryData<Ticker>(tickerQueryKey(liveSeriesRef.current.pairId), prev => {
+          if (prev) {
+            return {
+              ...prev,
+              last: candle.close.toString(),
+              updated: new Date().toLocaleTimeString()
+            };
+          }
+          return prev;
+        });
       }
     } catch (error) {
       // console.error('Error processing WebSocket message:', error);
     }
-  }, []);
+  }, [maxCandles]);
 
-  const { isConnected, subscribe, unsubscribe } = useWebSocket(
-    handleWsMessage,
-    () => {
-      // console.log('WebSocket connected - subscribing to OHLC updates');
-      if (selectedPair) {
-        subscribe({
-          name: 'ohlc',
-          interval,
-          token: selectedPair.wsname || selectedPair.id
-        });
-      }
-    }
-  );
+  // Subscriptions are replayed by useWebSocket when the connection is (re)established
+  const { isConnected, subscribe, unsubscribe } = useWebSocket(handleWsMessage);
 
   // Fetch historical data
   const fetchHistoricalData = useCallback(async () => {
@@ -132,152 +142,180 @@ export function useKrakenData() {
     try {
       if (!selectedPair) return;
       
-      // Fetch historical OHLC data
-      const { ohlc, last } = await fetchHistoricalOHLC(selectedPair.id, interval);
-      setOhlcData(ohlc);
+      // Fetch historical OHLC data, resampling it for custom intervals
+      const { ohlc, last } = await fetchHistoricalOHLC(selectedPair.id, sourceInterval);
+      if (isCustomInterval(interval)) {
+        const resampler = new LiveResampler(interval);
+        resampler.reset(ohlc);
+        resamplerRef.current = resampler;
+        setOhlcData(resampleCandles(ohlc, interval, sourceInterval).slice(-maxCandles));
+      } else {
+        resamplerRef.current = null;
+        setOhlcData(ohlc.slice(-maxCandles));
+      }
       setLastTimestamp(last);
-      
-      // Fetch current ticker info
-      const tickerInfo = await fetchTickerInfo(selectedPair.id);
-      setTicker(tickerInfo);
-      
-      // Save user's preferences to localStorage
-      localStorage.setItem('krakenChartPair', selectedPair.id);
-      localStorage.setItem('krakenChartInterval', interval.toString());
-      
+      setHistoryStart(null);
+      setGaps([]);
     } catch (err) {
       // console.error('Error fetching historical data:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch market data');
     } finally {
       setIsLoading(false);
     }
-  }, [selectedPair, interval]);
+  }, [selectedPair, interval, sourceInterval, maxCandles]);
 
-  // Load trading pairs
+  // Keep track of which series is loaded so stale pages can be discarded
   useEffect(() => {
-    const loadPairs = async () => {
-      try {
-        const pairs = await fetchTradingPairs();
-        if (pairs.length > 0) {
-          setAvailablePairs(pairs);
-          
-          // Check if we have a stored preference
-          const storedPairId = localStorage.getItem('krakenChartPair');
-          if (storedPairId) {
-            const storedPair = pairs.find(p => p.id === storedPairId);
-            if (storedPair) {
-              setSelectedPair(storedPair);
-            }
-          }
-        }
-      } catch (err) {
-        // console.error('Error fetching trading pairs:', err);
-        // Fall back to default pairs
+    seriesKeyRef.current = `${selectedPair.id}:${interval}`;
+  }, [selectedPair, interval]);
+
+  // Fetch the candles of a gap from the server and merge them in. Whatever
+  // is still missing is retried once and then marked on the chart.
+  const repairGap = useCallback(async (gap: CandleGap, attempt: number = 1) => {
+    const seriesKey = seriesKeyRef.current;
+    let open = [gap];
+
+    try {
+      const since = Math.floor(gap.from.getTime() / 1000);
+      const page = await fetchHistoricalOHLC(selectedPair.id, sourceInterval, since);
+      const ohlc = isCustomInterval(interval)
+        ? resampleCandles(page.ohlc, interval, sourceInterval)
+        : page.ohlc;
+
+      // The user switched pair or interval while we were loading
+      if (seriesKeyRef.current !== seriesKey) return;
+
+      const missing = ohlc.filter(candle => candle.time > gap.from && candle.time < gap.to);
+      if (missing.length > 0) {
+        setOhlcData(prevData => mergeCandles(prevData, missing).slice(-maxCandles));
       }
+      open = remainingGaps(gap, missing, interval);
+    } catch (err) {
+      // console.error('Error backfilling candles:', err);
+    }
+
+    // Candles may have arrived in the meantime, e.g. from an overlapping repair
+    const stillOpen = () =>
+      open.flatMap(remaining => remainingGaps(remaining, ohlcDataRef.current, interval));
+
+    if (open.length === 0 || seriesKeyRef.current !== seriesKey) return;
+    if (attempt < GAP_REPAIR_ATTEMPTS) {
+      const retry = window.setTimeout(() => {
+        gapRetriesRef.current = gapRetriesRef.current.filter(id => id !== retry);
+        if (seriesKeyRef.current !== seriesKey) return;
+        stillOpen().forEach(remaining => repairGap(remaining, attempt + 1));
+      }, GAP_RETRY_DELAY);
+      gapRetriesRef.current.push(retry);
+    } else {
+      const unfilled = stillOpen();
+      if (unfilled.length > 0) setGaps(prev => [...prev, ...unfilled]);
+    }
+  }, [selectedPair, interval, sourceInterval, maxCandles]);
+  repairGapRef.current = repairGap;
+
+  // Pending retries belong to the series they were started for
+  useEffect(() => {
+    return () => {
+      gapRetriesRef.current.forEach(id => window.clearTimeout(id));
+      gapRetriesRef.current = [];
     };
+  }, [selectedPair, interval]);
+
+  // Prepend the page of candles before the oldest loaded one
+  const loadOlderData = useCallback(async () => {
+    const oldest = ohlcDataRef.current[0];
+    if (!oldest || loadingOlderRef.current || ohlcDataRef.current.length >= maxCandles) {
+      return;
+    }
     
-    loadPairs();
-  }, []);
+    const seriesKey = seriesKeyRef.current;
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    
+    try {
+      const before = Math.floor(oldest.time.getTime() / 1000);
+      const page = await fetchHistoricalOHLC(selectedPair.id, sourceInterval, undefined, before);
+      const ohlc = isCustomInterval(interval)
+        ? resampleCandles(page.ohlc, interval, sourceInterval)
+        : page.ohlc;
+      
+      // The user switched pair or interval while we were loading
+      if (seriesKeyRef.current !== seriesKey) return;
+      
+      if (ohlc.length === 0) {
+        setHistoryStart(before);
+        return;
+      }
+      
+      setOhlcData(prevData => {
+        const firstTime = prevData[0]?.time.getTime() ?? Infinity;
+        const older = ohlc.filter(candle => candle.time.getTime() < firstTime);
+        const room = maxCandles - prevData.length;
+        return room > 0 ? [...older.slice(-room), ...prevData] : prevData;
+      });
+    } catch (err) {
+      // console.error('Error fetching older data:', err);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [selectedPair, interval, sourceInterval, maxCandles]);
+
+  // More history is available until the server runs out or the window is full
+  const hasMoreHistory = ohlcData.length > 0 && 
+    ohlcData.length < maxCandles &&
+    (historyStart === null || ohlcData[0].time.getTime() / 1000 > historyStart);
 
-  // Initialize chart data from localStorage if available
+  // Switch to the initial pair once the trading pairs are loaded
+  const initialPairShownRef = useRef(false);
   useEffect(() => {
-    const storedInterval = localStorage.getItem('krakenChartInterval');
-    if (storedInterval) {
-      const parsedInterval = parseInt(storedInterval, 10);
-      if (!isNaN(parsedInterval) && [5, 15, 30, 60, 240, 1440].includes(parsedInterval)) {
-        setInterval(parsedInterval);
+    if (!pairsLoaded || initialPairShownRef.current) return;
+    initialPairShownRef.current = true;
+    
+    const { initialPairId } = initialRef.current;
+    if (initialPairId) {
+      const initialPair = availablePairs.find(p => p.id === initialPairId);
+      if (initialPair) {
+        setSelectedPair(initialPair);
       }
     }
-  }, []);
+  }, [pairsLoaded, availablePairs]);
 
   // Load data when pair or interval changes
   useEffect(() => {
     if (selectedPair) {
       // console.log(`Fetching data for ${selectedPair.name} with interval ${interval}m`);
       fetchHistoricalData();
-      
-      // Update WebSocket subscription - only when connected
-      if (isConnected) {
-        // Use a small delay to ensure any previous unsubscriptions complete
-        const timer = setTimeout(() => {
-          // Unsubscribe from previous pair/interval
-          unsubscribe({ 
-            name: 'ohlc',
-            // Include all subscription details to ensure proper unsubscribe
-            interval,
-            token: selectedPair.wsname || selectedPair.id
-          });
-          
-          // Subscribe to the new pair/interval after a small delay
-          setTimeout(() => {
-            // console.log(`Subscribing to ${selectedPair.name} OHLC with interval ${interval}m`);
-            subscribe({
-              name: 'ohlc',
-              interval,
-              token: selectedPair.wsname || selectedPair.id
-            });
-          }, 300);
-        }, 100);
-        
-        return () => {
-          clearTimeout(timer);
-        };
-      }
     }
-  }, [selectedPair, interval, isConnected, fetchHistoricalData, subscribe, unsubscribe]);
+  }, [selectedPair, interval, fetchHistoricalData]);
 
-  // Define the ticker update function outside useEffect to avoid any issues
-  const updateTicker = useCallback(() => {
-    if (selectedPair) {
-      // Use a non-async wrapper function to avoid Promise return
-      const fetchData = async () => {
-        try {
-          const tickerInfo = await fetchTickerInfo(selectedPair.id);
-          setTicker(tickerInfo);
-        } catch (err) {
-          // console.error('Error updating ticker:', err);
-        }
-      };
-      
-      fetchData();
-    }
-  }, [selectedPair]);
-  
-  // Set up periodic ticker updates
+  // Move the live stream to the selected pair/interval, unsubscribing the
+  // previous one first so its updates stop before the new ones start
   useEffect(() => {
-    // Initial update
-    updateTicker();
-    
-    // Set up interval - using a more conservative update frequency
-    // to avoid overwhelming the API and causing rate limit issues
-    const tickerId = window.setInterval(updateTicker, 15000); // Update every 15 seconds
-    
-    // Clean up interval on unmount
-    return () => {
-      window.clearInterval(tickerId);
+    const next: KrakenWebSocketSubscription = {
+      name: 'ohlc',
+      interval: sourceInterval,
+      token: selectedPair.wsname || selectedPair.id
     };
-  }, [updateTicker]);
+    liveSeriesRef.current = { pairId: selectedPair.id, pair: next.token, interval: sourceInterval };
+    setLiveInterval(null);
 
-  // Monitor connection state and re-subscribe if needed
-  useEffect(() => {
-    // Only subscribe when connected and we have a selected pair
-    if (isConnected && selectedPair) {
-      // console.log('WebSocket connection status changed, re-subscribing to OHLC updates');
-      
-      // Short delay to make sure connection is fully established
-      const timer = setTimeout(() => {
-        subscribe({
-          name: 'ohlc',
-          interval,
-          token: selectedPair.wsname || selectedPair.id
-        });
-      }, 500);
-      
-      return () => {
-        clearTimeout(timer);
-      };
+    if (subscriptionRef.current) {
+      unsubscribe(subscriptionRef.current);
     }
-  }, [isConnected, selectedPair, interval, subscribe]);
+    subscribe(next);
+    subscriptionRef.current = next;
+  }, [selectedPair, sourceInterval, subscribe, unsubscribe]);
+
+  // Unsubscribe when the component using the hook goes away
+  useEffect(() => {
+    return () => {
+      if (subscriptionRef.current) {
+        unsubscribe(subscriptionRef.current);
+        subscriptionRef.current = null;
+      }
+    };
+  }, [unsubscribe]);
 
   return {
     ohlcData,
@@ -289,9 +327,14 @@ export function useKrakenData() {
     error,
     isChartType,
     isConnected,
+    liveInterval,
+    gaps,
+    isLoadingOlder,
+    hasMoreHistory,
     setSelectedPair,
     setInterval,
     setChartType,
-    refreshData: fetchHistoricalData
+    refreshData: fetchHistoricalData,
+    loadOlderData
   };
 }
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { fetchMarketSummary } from '@/lib/krakenApi';
+import { MarketSummary, TradingPair } from '@/lib/types';
+
+// Daily figures change slowly, refresh once a minute
+const REFRESH_INTERVAL = 60000;
+
+export function useMarketSummary(pair: TradingPair) {
+  const [summary, setSummary] = useState<MarketSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const update = async () => {
+      try {
+        const result = await fetchMarketSummary(pair.id);
+        if (!cancelled) {
+          setSummary(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch market summary');
+        }
+      }
+    };
+
+    setSummary(null);
+    update();
+    const summaryId = window.setInterval(update, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(summaryId);
+    };
+  }, [pair.id]);
+
+  return { summary, error };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ServerMessage } from '@shared/protocol';
+import { useWebSocket } from './useWebSocket';
+import {
+  BookState,
+  OrderBookDepth,
+  applySnapshot,
+  applyUpdate,
+  bookChecksum,
+  toOrderBook,
+} from '@/lib/orderBook';
+import { KrakenWebSocketSubscription, OrderBook, TradingPair } from '@/lib/types';
+
+const emptyOrderBook: OrderBook = { bids: [], asks: [] };
+
+export function useOrderBook(pair: TradingPair, depth: OrderBookDepth) {
+  const [orderBook, setOrderBook] = useState<OrderBook>(emptyOrderBook);
+  const [isSynced, setIsSynced] = useState<boolean>(false);
+  const [checksumErrors, setChecksumErrors] = useState<number>(0);
+
+  const bookRef = useRef<BookState | null>(null);
+  const channelRef = useRef<{ depth: number; token: string }>({ depth, token: pair.wsname });
+  const frameRef = useRef<number | null>(null);
+  const resyncRef = useRef<() => void>(() => {});
+
+  channelRef.current = { depth, token: pair.wsname };
+
+  // Book updates can arrive many times per second, render at most once per frame
+  const scheduleRender = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = window.requestAnimationFrame(() => {
+      frameRef.current = null;
+      if (bookRef.current) {
+        setOrderBook(toOrderBook(bookRef.current, depth));
+      }
+    });
+  }, [depth]);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    if (message.type !== 'snapshot' && message.type !== 'update') return;
+    if (message.channel !== 'book') return;
+
+    const { depth: channelDepth, token } = channelRef.current;
+    if (message.depth !== channelDepth || message.pair !== token) {
+      return;
+    }
+
+    if (message.type === 'snapshot') {
+      bookRef.current = applySnapshot(message, depth);
+      setIsSynced(true);
+      scheduleRender();
+      return;
+    }
+
+    // Updates before the first snapshot cannot be applied
+    if (!bookRef.current) return;
+
+    const book = applyUpdate(bookRef.current, message, depth);
+    const checksum = message.checksum;
+
+    if (checksum !== undefined && checksum !== bookChecksum(book)) {
+      // Our copy of the book drifted from Kraken's, start over from a snapshot
+      bookRef.current = null;
+      setIsSynced(false);
+      setChecksumErrors(count => count + 1);
+      resyncRef.current();
+      return;
+    }
+
+    bookRef.current = book;
+    scheduleRender();
+  }, [depth, scheduleRender]);
+
+  const { isConnected, subscribe, unsubscribe } = useWebSocket(handleMessage);
+
+  useEffect(() => {
+    const subscription: KrakenWebSocketSubscription = { name: 'book', token: pair.wsname, depth };
+
+    bookRef.current = null;
+    setIsSynced(false);
+    setOrderBook(emptyOrderBook);
+
+    // Unsubscribing and subscribing again makes Kraken send a new snapshot
+    resyncRef.current = () => {
+      unsubscribe(subscription);
+      subscribe(subscription);
+    };
+
+    subscribe(subscription);
+
+    return () => {
+      unsubscribe(subscription);
+    };
+  }, [pair.wsname, depth, subscribe, unsubscribe]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) {
+        window.cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    orderBook,
+    isSynced,
+    isConnected,
+    checksumErrors,
+  };
+}
@@ -0,0 +1,162 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { preferencesSchema, type Preferences, type PaneSettings } from '@shared/schema';
+import { useAuth } from '@/hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import { loadLocalPreferences, saveLocalPreferences, withPane } from '@/lib/preferences';
+
+interface PreferencesContextValue {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+  updatePane: (index: number, changes: Partial<PaneSettings>) => void;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+// Collect quick successive changes, e.g. a few interval clicks, into one request
+const SAVE_DELAY = 500;
+
+// Preferences of the signed in user. The server answers 404 until they were
+// saved once, in which case the ones kept in localStorage are migrated.
+async function loadServerPreferences(): Promise<Preferences> {
+  const response = await fetch('/api/preferences', { credentials: 'include' });
+  if (response.status === 404) {
+    const migrated = loadLocalPreferences();
+    await apiRequest('PUT', '/api/preferences', migrated);
+    return migrated;
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+  return preferencesSchema.parse(await response.json());
+}
+
+function applyTheme(theme: Preferences['theme']) {
+  const media = window.matchMedia('(prefers-color-scheme: dark)');
+  const update = () => {
+    const isDark = theme === 'dark' || (theme === 'system' && media.matches);
+    document.documentElement.classList.toggle('dark', isDark);
+  };
+  update();
+
+  if (theme !== 'system') return () => {};
+  media.addEventListener('change', update);
+  return () => media.removeEventListener('change', update);
+}
+
+// Loads the preferences of whoever is using the app and renders the children
+// once they are known, so components can read their initial state from them
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id ?? null;
+  const [state, setState] = useState<{ owner: number | null; preferences: Preferences } | null>(null);
+  // Successive updates within one render build on each other
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const pendingRef = useRef<Preferences | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+
+  const flush = useCallback((keepalive = false) => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+
+    fetch('/api/preferences', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(pending),
+      credentials: 'include',
+      keepalive,
+    }).catch(() => {
+      // The next change saves everything again
+    });
+  }, []);
+
+  useEffect(() => {
+    if (isAuthLoading) return;
+
+    if (userId === null) {
+      setState({ owner: null, preferences: loadLocalPreferences() });
+      return;
+    }
+
+    let cancelled = false;
+    loadServerPreferences()
+      .catch(() => loadLocalPreferences()) // server unavailable, keep working with the local copy
+      .then(loaded => {
+        if (!cancelled) setState({ owner: userId, preferences: loaded });
+      });
+
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [userId, isAuthLoading, flush]);
+
+  // Don't lose the last change when the tab is closed within the save delay
+  useEffect(() => {
+    const handlePageHide = () => flush(true);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flush]);
+
+  const theme = state?.preferences.theme;
+  useEffect(() => (theme ? applyTheme(theme) : undefined), [theme]);
+
+  const save = useCallback((owner: number | null, next: Preferences) => {
+    if (owner === null) {
+      saveLocalPreferences(next);
+      return;
+    }
+    pendingRef.current = next;
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => flush(), SAVE_DELAY);
+  }, [flush]);
+
+  const update = useCallback((change: (current: Preferences) => Preferences) => {
+    const current = stateRef.current;
+    if (!current) return;
+
+    const next = { ...current, preferences: change(current.preferences) };
+    stateRef.current = next;
+    setState(next);
+    save(next.owner, next.preferences);
+  }, [save]);
+
+  const updatePreferences = useCallback(
+    (changes: Partial<Preferences>) => update(current => ({ ...current, ...changes })),
+    [update]
+  );
+
+  const updatePane = useCallback(
+    (index: number, changes: Partial<PaneSettings>) => update(current => withPane(current, index, changes)),
+    [update]
+  );
+
+  // Wait for the preferences of the current user, stale ones would be saved over theirs
+  if (!state || state.owner !== userId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-textSecondary text-sm">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <PreferencesContext.Provider value={{ preferences: state.preferences, updatePreferences, updatePane }}>
+      {/* Remount for another user so everything starts from their preferences */}
+      <React.Fragment key={state.owner ?? 'anonymous'}>{children}</React.Fragment>
+    </PreferencesContext.Provider>
+  );
+};
+
+export function usePreferences(): PreferencesContextValue {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
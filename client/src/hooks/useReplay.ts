@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { OHLCData } from '@/lib/types';
+
+// Candles per second while playing
+export const replaySpeeds = [1, 2, 5, 10, 25, 50, 100];
+
+// Faster speeds advance several candles per tick instead of ticking faster
+const MIN_TICK_MS = 50;
+
+// Number of candles starting at or before the time
+function countUntil(data: OHLCData[], time: number): number {
+  let low = 0;
+  let high = data.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (data[middle].time.getTime() <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Bar replay: shows the candles of a series up to a point in time and
+ * moves that point forward as if the candles after it arrived live.
+ *
+ * The replay position is the time of the last shown candle, so it stays
+ * put while older candles are loaded or live ones keep arriving. The
+ * replayed candles go through the same chart as live data.
+ */
+export function useReplay(data: OHLCData[]) {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [speed, setSpeed] = useState<number>(replaySpeeds[0]);
+
+  const dataRef = useRef<OHLCData[]>(data);
+  dataRef.current = data;
+
+  const isActive = cursor !== null;
+  const shown = cursor === null ? data.length : Math.max(1, countUntil(data, cursor));
+  const replayData = useMemo(
+    () => (isActive ? data.slice(0, shown) : data),
+    [data, isActive, shown]
+  );
+  const isAtEnd = shown >= data.length;
+
+  // Show the candles up to the date, the first one if it is before all of them
+  const start = useCallback((date: Date) => {
+    const candles = dataRef.current;
+    if (candles.length === 0) return;
+    const index = Math.max(0, countUntil(candles, date.getTime()) - 1);
+    setCursor(candles[index].time.getTime());
+  }, []);
+
+  const stop = useCallback(() => {
+    setCursor(null);
+    setIsPlaying(false);
+  }, []);
+
+  // Move by a number of candles, negative steps go back
+  const step = useCallback((bars: number) => {
+    setCursor(previous => {
+      const candles = dataRef.current;
+      if (previous === null || candles.length === 0) return previous;
+      const index = Math.max(0, countUntil(candles, previous) - 1);
+      const next = Math.min(candles.length - 1, Math.max(0, index + bars));
+      return candles[next].time.getTime();
+    });
+  }, []);
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Playing stops at the latest candle
+  useEffect(() => {
+    if (isPlaying && (!isActive || isAtEnd)) setIsPlaying(false);
+  }, [isPlaying, isActive, isAtEnd]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const tick = Math.max(1000 / speed, MIN_TICK_MS);
+    const bars = Math.max(1, Math.round(speed * tick / 1000));
+    const id = window.setInterval(() => step(bars), tick);
+    return () => window.clearInterval(id);
+  }, [isPlaying, speed, step]);
+
+  return {
+    data: replayData,
+    isActive,
+    isPlaying,
+    isAtEnd,
+    speed,
+    position: cursor === null ? null : new Date(cursor),
+    start,
+    stop,
+    play,
+    pause,
+    step,
+    setSpeed,
+  };
+}
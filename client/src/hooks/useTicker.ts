@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTickerInfo } from '@/lib/krakenApi';
+import { Ticker, TradingPair } from '@/lib/types';
+
+// A conservative refresh rate keeps us clear of Kraken's rate limits,
+// live candles update the last price in between
+const TICKER_REFRESH_INTERVAL = 15000;
+
+export const tickerQueryKey = (pairId: string) => ['kraken', 'ticker', pairId];
+
+// Panes showing the same pair share one ticker and one refresh timer
+export function useTicker(pair: TradingPair): Ticker | null {
+  const { data } = useQuery({
+    queryKey: tickerQueryKey(pair.id),
+    queryFn: () => fetchTickerInfo(pair.id),
+    refetchInterval: TICKER_REFRESH_INTERVAL,
+  });
+  return data ?? null;
+}
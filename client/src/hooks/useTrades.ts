@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ServerMessage } from '@shared/protocol';
+import { useWebSocket } from './useWebSocket';
+import { fetchRecentTrades, parseTradeUpdate } from '@/lib/krakenApi';
+import { RingBuffer } from '@/lib/ringBuffer';
+import { KrakenWebSocketSubscription, Trade, TradingPair } from '@/lib/types';
+
+export function useTrades(pair: TradingPair, capacity: number = 50) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const bufferRef = useRef(new RingBuffer<Trade>(capacity));
+  const tokenRef = useRef<string>(pair.wsname);
+  tokenRef.current = pair.wsname;
+
+  // Newest trade first for display
+  const publish = useCallback(() => {
+    setTrades(bufferRef.current.toArray().reverse());
+  }, []);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    if (message.type !== 'update' || message.pair !== tokenRef.current) {
+      return;
+    }
+
+    const update = parseTradeUpdate(message);
+    if (update.length > 0) {
+      bufferRef.current.push(...update);
+      publish();
+    }
+  }, [publish]);
+
+  const { isConnected, subscribe, unsubscribe } = useWebSocket(handleMessage);
+
+  // Subscribe to live trades, then seed the tape with the latest REST trades
+  useEffect(() => {
+    const subscription: KrakenWebSocketSubscription = { name: 'trade', token: pair.wsname };
+    let cancelled = false;
+
+    bufferRef.current = new RingBuffer<Trade>(capacity);
+    setTrades([]);
+    setIsLoading(true);
+    subscribe(subscription);
+
+    fetchRecentTrades(pair.id, capacity)
+      .then(seed => {
+        if (cancelled) return;
+
+        // Live trades may have arrived first, keep them after the older seed
+        const live = bufferRef.current.toArray();
+        const firstLive = live[0]?.timestamp ?? Infinity;
+        bufferRef.current.clear();
+        bufferRef.current.push(...seed.filter(trade => trade.timestamp < firstLive), ...live);
+        publish();
+      })
+      .catch(() => {
+        // console.error('Error fetching recent trades:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe(subscription);
+    };
+  }, [pair.id, pair.wsname, capacity, subscribe, unsubscribe, publish]);
+
+  return {
+    trades,
+    isLoading,
+    isConnected,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTradingPairs } from '@/lib/krakenApi';
+import { TradingPair, defaultTradingPairs } from '@/lib/types';
+
+// Loaded once and shared by every chart pane, the defaults stand in until
+// then or when Kraken can't be reached
+export function useTradingPairs(): { pairs: TradingPair[]; isLoaded: boolean } {
+  const { data } = useQuery({
+    queryKey: ['kraken', 'assetpairs'],
+    queryFn: fetchTradingPairs,
+  });
+
+  const isLoaded = data !== undefined && data.length > 0;
+  return { pairs: isLoaded ? data : defaultTradingPairs, isLoaded };
+}
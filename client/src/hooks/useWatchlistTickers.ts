@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ServerMessage } from '@shared/protocol';
+import { useWebSocket } from './useWebSocket';
+import { fetchHistoricalOHLC, parseTickerUpdate } from '@/lib/krakenApi';
+import { KrakenWebSocketSubscription, TickerUpdate, TradingPair, WatchlistTicker } from '@/lib/types';
+
+// Sparklines show the hourly closes of the last day
+const SPARKLINE_INTERVAL = 60;
+const SPARKLINE_POINTS = 24;
+// Older sparklines are reloaded, checked once a minute
+const SPARKLINE_MAX_AGE = 10 * 60000;
+const SPARKLINE_CHECK_INTERVAL = 60000;
+
+// Live figures for every pair of a watchlist, from one ticker subscription
+// covering all of them. Results are keyed by pair id.
+export function useWatchlistTickers(pairs: TradingPair[]) {
+  const [updates, setUpdates] = useState<Record<string, TickerUpdate>>({}); // by WebSocket pair name
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
+  const sparklineLoadedRef = useRef<Map<string, number>>(new Map());
+  const subscribedRef = useRef<KrakenWebSocketSubscription[]>([]);
+
+  const tokensKey = pairs.map(pair => pair.wsname).join(',');
+  const idsKey = pairs.map(pair => pair.id).join(',');
+  const tokensRef = useRef<Set<string>>(new Set());
+  tokensRef.current = new Set(pairs.map(pair => pair.wsname));
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    const update = parseTickerUpdate(message);
+    if (!update || !tokensRef.current.has(update.pair)) return;
+    setUpdates(current => ({ ...current, [update.pair]: update }));
+  }, []);
+
+  const { isConnected, subscribeMany, unsubscribeMany } = useWebSocket(handleMessage);
+
+  // Only pairs added to or removed from the list are (un)subscribed,
+  // the others keep streaming
+  useEffect(() => {
+    const tokens = tokensKey ? tokensKey.split(',') : [];
+    const previous = subscribedRef.current;
+    const next = tokens.map((token): KrakenWebSocketSubscription => ({ name: 'ticker', token }));
+
+    unsubscribeMany(previous.filter(subscription => !tokens.includes(subscription.token)));
+    subscribeMany(next.filter(subscription => !previous.some(entry => entry.token === subscription.token)));
+    subscribedRef.current = next;
+  }, [tokensKey, subscribeMany, unsubscribeMany]);
+
+  // Load the sparklines one pair at a time to go easy on the REST API
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    let cancelled = false;
+
+    const refresh = async () => {
+      for (const id of ids) {
+        if (cancelled) return;
+        const loadedAt = sparklineLoadedRef.current.get(id);
+        if (loadedAt !== undefined && Date.now() - loadedAt < SPARKLINE_MAX_AGE) continue;
+
+        try {
+          const { ohlc } = await fetchHistoricalOHLC(id, SPARKLINE_INTERVAL);
+          sparklineLoadedRef.current.set(id, Date.now());
+          setSparklines(current => ({
+            ...current,
+            [id]: ohlc.slice(-SPARKLINE_POINTS).map(candle => candle.close),
+          }));
+        } catch (err) {
+          // Retried on the next check
+        }
+      }
+    };
+
+    refresh();
+    const refreshId = window.setInterval(refresh, SPARKLINE_CHECK_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(refreshId);
+    };
+  }, [idsKey]);
+
+  const tickers = useMemo(() => {
+    const result: Record<string, WatchlistTicker> = {};
+    pairs.forEach(pair => {
+      const update = updates[pair.wsname];
+      const closes = sparklines[pair.id] ?? [];
+      result[pair.id] = {
+        last: update?.last ?? null,
+        changePercent: update && update.open24h > 0
+          ? ((update.last - update.open24h) / update.open24h) * 100
+          : null,
+        // The last hourly candle is still forming, end the line at the live price
+        sparkline: update && closes.length > 0 ? [...closes.slice(0, -1), update.last] : closes,
+      };
+    });
+    return result;
+  }, [pairs, updates, sparklines]);
+
+  return {
+    tickers,
+    isConnected,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Shares the time under the mouse between linked charts.
+ *
+ * Cursor moves happen on every mouse move, so they are passed around
+ * through listeners instead of React state to avoid re-rendering charts.
+ */
+
+// Time of the candle under the cursor in ms, or null when the mouse left the chart
+type CursorListener = (time: number | null, source: string) => void;
+
+export class CursorSync {
+  private listeners = new Set<CursorListener>();
+
+  publish(source: string, time: number | null) {
+    this.listeners.forEach(listener => listener(time, source));
+  }
+
+  subscribe(listener: CursorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { TradingPair } from './types';
+
+/**
+ * Number formatting driven by the precision Kraken publishes per pair in
+ * AssetPairs: prices get `pair_decimals`, amounts in the base asset
+ * `lot_decimals`. Everything uses the browser locale for separators.
+ */
+
+export type PairPrecision = Pick<TradingPair, 'pair_decimals' | 'lot_decimals'>;
+
+// Amounts show at least this many decimals, up to the lot precision
+const MIN_AMOUNT_DECIMALS = 4;
+
+// Volumes from this size on are written as e.g. "12.3K" or "4.5M"
+const COMPACT_THRESHOLD = 10000;
+
+// Building a NumberFormat is slow and the chart axis formats on every redraw
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function numberFormat(options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = JSON.stringify(options);
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+function toNumber(value: number | string): number {
+  return typeof value === 'number' ? value : parseFloat(value);
+}
+
+function format(value: number | string, options: Intl.NumberFormatOptions): string {
+  const number = toNumber(value);
+  return Number.isFinite(number) ? numberFormat(options).format(number) : '—';
+}
+
+export function formatPrice(value: number | string, pair: PairPrecision): string {
+  return format(value, {
+    minimumFractionDigits: pair.pair_decimals,
+    maximumFractionDigits: pair.pair_decimals,
+  });
+}
+
+// Signed price difference, e.g. "+1,234.5"
+export function formatPriceChange(value: number | string, pair: PairPrecision): string {
+  return format(value, {
+    minimumFractionDigits: pair.pair_decimals,
+    maximumFractionDigits: pair.pair_decimals,
+    signDisplay: 'exceptZero',
+  });
+}
+
+// Amount of the base asset, e.g. a trade size or order book level
+export function formatAmount(value: number | string, pair: PairPrecision): string {
+  return format(value, {
+    minimumFractionDigits: Math.min(MIN_AMOUNT_DECIMALS, pair.lot_decimals),
+    maximumFractionDigits: pair.lot_decimals,
+  });
+}
+
+// Traded volume, compact once it gets large
+export function formatVolume(value: number | string, decimals: number = 2): string {
+  const number = toNumber(value);
+  if (Math.abs(number) >= COMPACT_THRESHOLD) {
+    return format(number, { notation: 'compact', maximumFractionDigits: 2 });
+  }
+  return format(number, { maximumFractionDigits: decimals });
+}
+
+// Signed percentage, e.g. "+2.35%"
+export function formatPercent(value: number, signed: boolean = true): string {
+  return `${format(value, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    signDisplay: signed ? 'exceptZero' : 'auto',
+  })}%`;
+}
@@ -0,0 +1,67 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { findGaps, gapBetween, mergeCandles, missingCandles, remainingGaps } from './gaps';
+import type { OHLCData } from './types';
+
+const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1) + minutes * 60000);
+
+function candle(minutes: number, close = 1): OHLCData {
+  return { time: at(minutes), open: close, high: close, low: close, close, volume: 1 };
+}
+
+describe('gap detection', () => {
+  test('adjacent candles exactly one interval apart leave no gap', () => {
+    assert.equal(gapBetween(at(0), at(5), 5), null);
+  });
+
+  test('candles one interval and a bit apart have a gap', () => {
+    assert.deepEqual(gapBetween(at(0), new Date(at(5).getTime() + 1), 5), {
+      from: at(0),
+      to: new Date(at(5).getTime() + 1),
+    });
+  });
+
+  test('finds every hole in the series', () => {
+    assert.deepEqual(findGaps([at(0), at(5), at(20), at(25), at(35)], 5), [
+      { from: at(5), to: at(20) },
+      { from: at(25), to: at(35) },
+    ]);
+  });
+
+  test('counts the candles missing from a gap', () => {
+    assert.equal(missingCandles({ from: at(5), to: at(20) }, 5), 2);
+    assert.equal(missingCandles({ from: at(0), to: at(1440) }, 60), 23);
+  });
+
+  test('leaves the parts of a gap the fetched candles did not cover', () => {
+    const gap = { from: at(0), to: at(30) };
+    assert.deepEqual(remainingGaps(gap, [candle(5), candle(10), candle(25)], 5), [
+      { from: at(10), to: at(25) },
+    ]);
+    assert.deepEqual(remainingGaps(gap, [5, 10, 15, 20, 25].map(minutes => candle(minutes)), 5), []);
+  });
+
+  test('ignores fetched candles outside the gap', () => {
+    const gap = { from: at(10), to: at(20) };
+    assert.deepEqual(remainingGaps(gap, [candle(0), candle(25)], 5), [gap]);
+  });
+});
+
+describe('mergeCandles', () => {
+  test('inserts missing candles in time order', () => {
+    const merged = mergeCandles([candle(0), candle(15), candle(20)], [candle(10), candle(5)]);
+    assert.deepEqual(merged.map(c => c.time), [at(0), at(5), at(10), at(15), at(20)]);
+  });
+
+  test('keeps the candles the series already has', () => {
+    const live = candle(15, 2);
+    const merged = mergeCandles([candle(0), live], [candle(5), candle(15, 1)]);
+    assert.equal(merged[2], live);
+    assert.equal(merged.length, 3);
+  });
+
+  test('returns the same series when nothing is new', () => {
+    const data = [candle(0), candle(5)];
+    assert.equal(mergeCandles(data, [candle(5)]), data);
+  });
+});
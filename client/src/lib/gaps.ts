@@ -0,0 +1,58 @@
+import { OHLCData } from './types';
+
+/**
+ * Holes in a candle series.
+ *
+ * Candles of an interval are exactly `interval` minutes apart, so two
+ * consecutive candles further apart than that have candles missing between
+ * them. This happens when the live stream drops for a while: the next live
+ * candle arrives with the ones in between never sent.
+ */
+
+// The candles around a hole, both present in the series
+export interface CandleGap {
+  from: Date; // last candle before the hole
+  to: Date;   // first candle after it
+}
+
+const intervalMs = (interval: number) => interval * 60 * 1000;
+
+// The hole between two consecutive candles, null when they are adjacent
+export function gapBetween(previous: Date, next: Date, interval: number): CandleGap | null {
+  return next.getTime() - previous.getTime() > intervalMs(interval)
+    ? { from: previous, to: next }
+    : null;
+}
+
+// Every hole in candle times sorted oldest first
+export function findGaps(times: Date[], interval: number): CandleGap[] {
+  const gaps: CandleGap[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const gap = gapBetween(times[i - 1], times[i], interval);
+    if (gap) gaps.push(gap);
+  }
+  return gaps;
+}
+
+// Candles missing from a gap, as counted by interval arithmetic
+export const missingCandles = (gap: CandleGap, interval: number): number =>
+  Math.round((gap.to.getTime() - gap.from.getTime()) / intervalMs(interval)) - 1;
+
+// Add candles to a series sorted oldest first. Candles the series already
+// has are kept, the live ones are fresher than anything fetched.
+export function mergeCandles(data: OHLCData[], candles: OHLCData[]): OHLCData[] {
+  const known = new Set(data.map(candle => candle.time.getTime()));
+  const added = candles.filter(candle => !known.has(candle.time.getTime()));
+  if (added.length === 0) return data;
+
+  return [...data, ...added].sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+// The parts of a gap that the fetched candles leave open
+export function remainingGaps(gap: CandleGap, candles: OHLCData[], interval: number): CandleGap[] {
+  const inside = candles
+    .map(candle => candle.time)
+    .filter(time => time > gap.from && time < gap.to)
+    .sort((a, b) => a.getTime() - b.getTime());
+  return findGaps([gap.from, ...inside, gap.to], interval);
+}
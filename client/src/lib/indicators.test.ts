@@ -0,0 +1,138 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { IndicatorSeries, indicatorDefinitions, type IndicatorPoint, type IndicatorType } from './indicators';
+import type { OHLCData } from './types';
+
+const MINUTE = 60000;
+
+function candle(index: number, close: number, extra: Partial<OHLCData> = {}): OHLCData {
+  return { time: new Date(index * MINUTE), open: close, high: close, low: close, close, volume: 1, ...extra };
+}
+
+const candles = (closes: number[]) => closes.map((close, i) => candle(i, close));
+
+function compute(type: IndicatorType, params: Record<string, number>, data: OHLCData[]): IndicatorPoint[] {
+  return new IndicatorSeries(type, params).compute(data);
+}
+
+// Rounded so floating point noise doesn't fail the comparison
+const values = (points: IndicatorPoint[], key = 'value') =>
+  points.map(point => (point[key] === undefined ? undefined : Number(point[key]!.toFixed(6))));
+
+describe('indicator math', () => {
+  test('sma averages the last period closes', () => {
+    assert.deepEqual(values(compute('sma', { period: 3 }, candles([1, 2, 3, 4, 5]))), [undefined, undefined, 2, 3, 4]);
+  });
+
+  test('ema is seeded with the sma and smoothed with 2 / (period + 1)', () => {
+    assert.deepEqual(values(compute('ema', { period: 3 }, candles([1, 2, 3, 5, 9]))), [undefined, undefined, 2, 3.5, 6.25]);
+  });
+
+  test('wma weighs recent closes more', () => {
+    assert.deepEqual(values(compute('wma', { period: 3 }, candles([1, 2, 3, 6]))), [undefined, undefined, 2.333333, 4.333333]);
+  });
+
+  test('bollinger bands are the sma plus and minus stdDev population deviations', () => {
+    const [, , point] = compute('bollinger', { period: 3, stdDev: 2 }, candles([1, 2, 3]));
+    const deviation = 2 * Math.sqrt(2 / 3);
+    assert.equal(point.middle, 2);
+    assert.ok(Math.abs(point.upper! - (2 + deviation)) < 1e-9);
+    assert.ok(Math.abs(point.lower! - (2 - deviation)) < 1e-9);
+  });
+
+  test("rsi uses wilder's smoothing of gains and losses", () => {
+    // Gains 1, 1 and no losses seed at 100, then a loss of 1 meets them halfway
+    assert.deepEqual(values(compute('rsi', { period: 2 }, candles([1, 2, 3, 2]))), [undefined, undefined, 100, 50]);
+  });
+
+  test('macd is the fast minus the slow ema, with an ema signal line', () => {
+    const points = compute('macd', { fast: 2, slow: 3, signal: 2 }, candles([1, 2, 3, 4, 5]));
+    assert.deepEqual(values(points, 'macd'), [undefined, undefined, 0.5, 0.5, 0.5]);
+    assert.deepEqual(values(points, 'signal'), [undefined, undefined, undefined, 0.5, 0.5]);
+    assert.deepEqual(values(points, 'histogram'), [undefined, undefined, undefined, 0, 0]);
+  });
+
+  test('stochastic places the close within the high/low range of the period', () => {
+    const data = [1, 2, 3].map((close, i) => candle(i, close, { high: close + 1, low: close - 1 }));
+    const [, , point] = compute('stochastic', { period: 3, smoothK: 1, smoothD: 1 }, data);
+    assert.deepEqual(point, { k: 75, d: 75 });
+  });
+
+  test('atr smooths the true range, which includes gaps from the previous close', () => {
+    const data = [1, 2, 10].map((close, i) => candle(i, close, { high: close + 1, low: close - 1 }));
+    assert.deepEqual(values(compute('atr', { period: 2 }, data)), [undefined, 2, 5.5]);
+  });
+
+  test('vwap weighs the typical price by volume and restarts every UTC day', () => {
+    const day = 24 * 60;
+    const data = [
+      candle(0, 10, { volume: 1 }),
+      candle(1, 20, { volume: 3 }),
+      candle(day, 30, { volume: 2 }),
+    ];
+    assert.deepEqual(values(compute('vwap', {}, data)), [10, 17.5, 30]);
+  });
+
+  test('obv adds the volume of up candles and subtracts that of down candles', () => {
+    const data = [1, 2, 1, 1].map((close, i) => candle(i, close, { volume: (i + 1) * 10 }));
+    assert.deepEqual(values(compute('obv', {}, data)), [0, 20, -10, -10]);
+  });
+});
+
+describe('IndicatorSeries', () => {
+  // A random walk with a forming candle revised by live updates
+  function walk(count: number, seed: number): OHLCData[] {
+    let price = 100;
+    let state = seed;
+    const random = () => {
+      state = (state * 16807) % 2147483647;
+      return state / 2147483647;
+    };
+    return Array.from({ length: count }, (_, i) => {
+      const open = price;
+      price = Math.max(1, price + (random() - 0.5) * 4);
+      const high = Math.max(open, price) + random();
+      const low = Math.min(open, price) - random();
+      return { time: new Date(i * MINUTE), open, high, low, close: price, volume: 1 + random() * 10 };
+    });
+  }
+
+  const types = Object.keys(indicatorDefinitions) as IndicatorType[];
+
+  test('live updates give the same values as a full recompute', () => {
+    const data = walk(120, 7);
+
+    types.forEach(type => {
+      const params = indicatorDefinitions[type].params;
+      const live = new IndicatorSeries(type, params);
+      let result: IndicatorPoint[] = [];
+      for (let i = 1; i <= data.length; i++) {
+        // The forming candle is revised before the next one opens
+        const forming = { ...data[i - 1], close: data[i - 1].open };
+        live.compute([...data.slice(0, i - 1), forming]);
+        result = live.compute(data.slice(0, i));
+      }
+      assert.deepEqual(result, compute(type, params, data), type);
+    });
+  });
+
+  test('starts over for other candles with the same times', () => {
+    const first = walk(60, 7);
+    const second = walk(60, 11);
+
+    types.forEach(type => {
+      const params = indicatorDefinitions[type].params;
+      const series = new IndicatorSeries(type, params);
+      series.compute(first);
+      assert.deepEqual(series.compute(second), compute(type, params, second), type);
+    });
+  });
+
+  test('starts over after the data was cleared', () => {
+    const data = walk(60, 7);
+    const series = new IndicatorSeries('sma', { period: 5 });
+    series.compute(data);
+    assert.deepEqual(series.compute([]), []);
+    assert.deepEqual(series.compute(data.slice(30)), compute('sma', { period: 5 }, data.slice(30)));
+  });
+});
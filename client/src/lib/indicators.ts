@@ -0,0 +1,430 @@
+import { OHLCData } from './types';
+
+/**
+ * Technical indicators computed candle by candle.
+ *
+ * Every indicator keeps its running state in a plain object and advances it
+ * one candle at a time. That lets IndicatorSeries commit the state for closed
+ * candles once and only re-run the forming (last) candle on a live update,
+ * on a copy of the committed state.
+ */
+
+// Output lines of an indicator for one candle, e.g. { upper, middle, lower }
+export type IndicatorPoint = Record<string, number | undefined>;
+
+export type IndicatorType =
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'bollinger'
+  | 'rsi'
+  | 'macd'
+  | 'stochastic'
+  | 'atr'
+  | 'vwap'
+  | 'obv';
+
+export interface IndicatorOutput {
+  key: string;
+  style: 'line' | 'histogram';
+}
+
+interface IndicatorDefinition<S> {
+  label: string;
+  // Overlays share the price chart, the rest get their own pane
+  placement: 'overlay' | 'pane';
+  params: Record<string, number>;
+  outputs: IndicatorOutput[];
+  levels?: number[];
+  init(params: Record<string, number>): S;
+  next(state: S, candle: OHLCData): IndicatorPoint;
+}
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+  color: string;
+}
+
+// Rolling building blocks shared by the indicators
+
+interface WindowState {
+  period: number;
+  values: number[];
+  sum: number;
+}
+
+const windowInit = (period: number): WindowState => ({ period, values: [], sum: 0 });
+
+function windowPush(state: WindowState, value: number): boolean {
+  state.values.push(value);
+  state.sum += value;
+  if (state.values.length > state.period) {
+    state.sum -= state.values.shift()!;
+  }
+  return state.values.length === state.period;
+}
+
+function smaNext(state: WindowState, value: number): number | undefined {
+  return windowPush(state, value) ? state.sum / state.period : undefined;
+}
+
+// Exponential smoothing seeded with a simple average of the first `period` values.
+// EMA uses alpha = 2 / (period + 1), Wilder's smoothing uses alpha = 1 / period.
+interface SmoothingState {
+  alpha: number;
+  seed: WindowState;
+  value?: number;
+}
+
+const smoothingInit = (period: number, alpha: number): SmoothingState => ({
+  alpha,
+  seed: windowInit(period),
+});
+
+const emaInit = (period: number) => smoothingInit(period, 2 / (period + 1));
+const wilderInit = (period: number) => smoothingInit(period, 1 / period);
+
+function smoothingNext(state: SmoothingState, value: number): number | undefined {
+  if (state.value === undefined) {
+    state.value = smaNext(state.seed, value);
+  } else {
+    state.value = value * state.alpha + state.value * (1 - state.alpha);
+  }
+  return state.value;
+}
+
+function wmaNext(state: WindowState, value: number): number | undefined {
+  if (!windowPush(state, value)) return undefined;
+  let weighted = 0;
+  state.values.forEach((v, i) => {
+    weighted += v * (i + 1);
+  });
+  return weighted / ((state.period * (state.period + 1)) / 2);
+}
+
+function standardDeviation(values: number[], mean: number): number {
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+const typicalPrice = (candle: OHLCData) => (candle.high + candle.low + candle.close) / 3;
+
+const utcDay = (candle: OHLCData) => Math.floor(candle.time.getTime() / 86400000);
+
+interface BollingerState {
+  window: WindowState;
+  stdDev: number;
+}
+
+interface RsiState {
+  gains: SmoothingState;
+  losses: SmoothingState;
+  prevClose?: number;
+}
+
+interface MacdState {
+  fast: SmoothingState;
+  slow: SmoothingState;
+  signal: SmoothingState;
+}
+
+interface StochasticState {
+  highs: WindowState;
+  lows: WindowState;
+  k: WindowState;
+  d: WindowState;
+}
+
+interface AtrState {
+  range: SmoothingState;
+  prevClose?: number;
+}
+
+interface VwapState {
+  day: number;
+  priceVolume: number;
+  volume: number;
+}
+
+interface ObvState {
+  value: number;
+  prevClose?: number;
+}
+
+// Running state of each indicator type
+interface IndicatorStates {
+  sma: WindowState;
+  ema: SmoothingState;
+  wma: WindowState;
+  bollinger: BollingerState;
+  rsi: RsiState;
+  macd: MacdState;
+  stochastic: StochasticState;
+  atr: AtrState;
+  vwap: VwapState;
+  obv: ObvState;
+}
+
+export const indicatorDefinitions: { [T in IndicatorType]: IndicatorDefinition<IndicatorStates[T]> } = {
+  sma: {
+    label: 'SMA',
+    placement: 'overlay',
+    params: { period: 20 },
+    outputs: [{ key: 'value', style: 'line' }],
+    init: ({ period }) => windowInit(period),
+    next: (state, candle) => ({ value: smaNext(state, candle.close) }),
+  },
+  ema: {
+    label: 'EMA',
+    placement: 'overlay',
+    params: { period: 20 },
+    outputs: [{ key: 'value', style: 'line' }],
+    init: ({ period }) => emaInit(period),
+    next: (state, candle) => ({ value: smoothingNext(state, candle.close) }),
+  },
+  wma: {
+    label: 'WMA',
+    placement: 'overlay',
+    params: { period: 20 },
+    outputs: [{ key: 'value', style: 'line' }],
+    init: ({ period }) => windowInit(period),
+    next: (state, candle) => ({ value: wmaNext(state, candle.close) }),
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: { period: 20, stdDev: 2 },
+    outputs: [
+      { key: 'upper', style: 'line' },
+      { key: 'middle', style: 'line' },
+      { key: 'lower', style: 'line' },
+    ],
+    init: ({ period, stdDev }) => ({ window: windowInit(period), stdDev }),
+    next: (state, candle) => {
+      const middle = smaNext(state.window, candle.close);
+      if (middle === undefined) return {};
+      const deviation = standardDeviation(state.window.values, middle) * state.stdDev;
+      return { upper: middle + deviation, middle, lower: middle - deviation };
+    },
+  },
+  rsi: {
+    label: 'RSI',
+    placement: 'pane',
+    params: { period: 14 },
+    outputs: [{ key: 'value', style: 'line' }],
+    levels: [30, 70],
+    init: ({ period }) => ({ gains: wilderInit(period), losses: wilderInit(period) }),
+    next: (state, candle) => {
+      const prevClose = state.prevClose;
+      state.prevClose = candle.close;
+      if (prevClose === undefined) return {};
+
+      const change = candle.close - prevClose;
+      const gain = smoothingNext(state.gains, Math.max(change, 0));
+      const loss = smoothingNext(state.losses, Math.max(-change, 0));
+      if (gain === undefined || loss === undefined) return {};
+
+      return { value: loss === 0 ? 100 : 100 - 100 / (1 + gain / loss) };
+    },
+  },
+  macd: {
+    label: 'MACD',
+    placement: 'pane',
+    params: { fast: 12, slow: 26, signal: 9 },
+    outputs: [
+      { key: 'histogram', style: 'histogram' },
+      { key: 'macd', style: 'line' },
+      { key: 'signal', style: 'line' },
+    ],
+    levels: [0],
+    init: ({ fast, slow, signal }) => ({
+      fast: emaInit(fast),
+      slow: emaInit(slow),
+      signal: emaInit(signal),
+    }),
+    next: (state, candle) => {
+      const fast = smoothingNext(state.fast, candle.close);
+      const slow = smoothingNext(state.slow, candle.close);
+      if (fast === undefined || slow === undefined) return {};
+
+      const macd = fast - slow;
+      const signal = smoothingNext(state.signal, macd);
+      return {
+        macd,
+        signal,
+        histogram: signal !== undefined ? macd - signal : undefined,
+      };
+    },
+  },
+  stochastic: {
+    label: 'Stochastic',
+    placement: 'pane',
+    params: { period: 14, smoothK: 3, smoothD: 3 },
+    outputs: [
+      { key: 'k', style: 'line' },
+      { key: 'd', style: 'line' },
+    ],
+    levels: [20, 80],
+    init: ({ period, smoothK, smoothD }) => ({
+      highs: windowInit(period),
+      lows: windowInit(period),
+      k: windowInit(smoothK),
+      d: windowInit(smoothD),
+    }),
+    next: (state, candle) => {
+      const full = windowPush(state.highs, candle.high);
+      windowPush(state.lows, candle.low);
+      if (!full) return {};
+
+      const highest = Math.max(...state.highs.values);
+      const lowest = Math.min(...state.lows.values);
+      const raw = highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+      const k = smaNext(state.k, raw);
+      const d = k !== undefined ? smaNext(state.d, k) : undefined;
+      return { k, d };
+    },
+  },
+  atr: {
+    label: 'ATR',
+    placement: 'pane',
+    params: { period: 14 },
+    outputs: [{ key: 'value', style: 'line' }],
+    init: ({ period }) => ({ range: wilderInit(period) }),
+    next: (state, candle) => {
+      const prevClose = state.prevClose;
+      state.prevClose = candle.close;
+      const trueRange = prevClose === undefined
+        ? candle.high - candle.low
+        : Math.max(
+            candle.high - candle.low,
+            Math.abs(candle.high - prevClose),
+            Math.abs(candle.low - prevClose)
+          );
+      return { value: smoothingNext(state.range, trueRange) };
+    },
+  },
+  vwap: {
+    // Session VWAP, restarting at every UTC midnight
+    label: 'VWAP',
+    placement: 'overlay',
+    params: {},
+    outputs: [{ key: 'value', style: 'line' }],
+    init: () => ({ day: -1, priceVolume: 0, volume: 0 }),
+    next: (state, candle) => {
+      const day = utcDay(candle);
+      if (day !== state.day) {
+        state.day = day;
+        state.priceVolume = 0;
+        state.volume = 0;
+      }
+      state.priceVolume += typicalPrice(candle) * candle.volume;
+      state.volume += candle.volume;
+      return { value: state.volume > 0 ? state.priceVolume / state.volume : undefined };
+    },
+  },
+  obv: {
+    label: 'OBV',
+    placement: 'pane',
+    params: {},
+    outputs: [{ key: 'value', style: 'line' }],
+    init: () => ({ value: 0 }),
+    next: (state, candle) => {
+      if (state.prevClose !== undefined) {
+        if (candle.close > state.prevClose) state.value += candle.volume;
+        else if (candle.close < state.prevClose) state.value -= candle.volume;
+      }
+      state.prevClose = candle.close;
+      return { value: state.value };
+    },
+  },
+};
+
+export const indicatorTypes = Object.keys(indicatorDefinitions) as IndicatorType[];
+
+const indicatorColors = ['#2962ff', '#ff6d00', '#ab47bc', '#00897b', '#f9a825', '#e91e63'];
+
+let nextIndicatorId = 1;
+
+export function createIndicatorConfig(type: IndicatorType, existing: IndicatorConfig[] = []): IndicatorConfig {
+  // Restored configs keep the ids they were saved with
+  let id = `${type}-${nextIndicatorId++}`;
+  while (existing.some((config) => config.id === id)) {
+    id = `${type}-${nextIndicatorId++}`;
+  }
+  return {
+    id,
+    type,
+    params: { ...indicatorDefinitions[type].params },
+    color: indicatorColors[existing.length % indicatorColors.length],
+  };
+}
+
+export function indicatorLabel(config: IndicatorConfig): string {
+  const values = Object.values(config.params);
+  const label = indicatorDefinitions[config.type].label;
+  return values.length > 0 ? `${label} (${values.join(', ')})` : label;
+}
+
+/**
+ * Incrementally computed values of one indicator over a candle series.
+ * Closed candles are only processed once; as long as new data only patches
+ * the last candle or appends to the series, each update costs one step.
+ */
+export class IndicatorSeries<T extends IndicatorType = IndicatorType> {
+  private definition: IndicatorDefinition<IndicatorStates[T]>;
+  private state: IndicatorStates[T];
+  private committed: IndicatorPoint[] = [];
+  private firstTime?: number;
+  // The candle the committed state ends with
+  private lastCommitted?: OHLCData;
+
+  constructor(readonly type: T, readonly params: Record<string, number>) {
+    this.definition = indicatorDefinitions[type];
+    this.state = this.definition.init(params);
+  }
+
+  compute(data: OHLCData[]): IndicatorPoint[] {
+    const closed = data.length - 1;
+
+    if (!this.continues(data, closed)) this.reset();
+    if (data.length === 0) return [];
+
+    for (let i = this.committed.length; i < closed; i++) {
+      this.committed.push(this.definition.next(this.state, data[i]));
+    }
+    this.firstTime = data[0].time.getTime();
+    this.lastCommitted = closed > 0 ? data[closed - 1] : undefined;
+
+    // The forming candle is evaluated on a copy so it can be revised later
+    const forming = this.definition.next(structuredClone(this.state), data[closed]);
+    return [...this.committed, forming];
+  }
+
+  private reset() {
+    this.state = this.definition.init(this.params);
+    this.committed = [];
+    this.firstTime = undefined;
+    this.lastCommitted = undefined;
+  }
+
+  // Whether data extends the series we have already committed. Candles with
+  // the same times but other values, e.g. refetched data, start over.
+  private continues(data: OHLCData[], closed: number): boolean {
+    if (this.committed.length === 0) return true;
+    if (this.committed.length > closed) return false;
+    return data[0].time.getTime() === this.firstTime &&
+      this.lastCommitted !== undefined &&
+      sameCandle(data[this.committed.length - 1], this.lastCommitted);
+  }
+}
+
+function sameCandle(a: OHLCData, b: OHLCData): boolean {
+  return a.time.getTime() === b.time.getTime() &&
+    a.open === b.open &&
+    a.high === b.high &&
+    a.low === b.low &&
+    a.close === b.close &&
+    a.volume === b.volume;
+}
@@ -3,8 +3,12 @@ import {
   krakenOHLCResponseSchema, 
   krakenAssetPairsResponseSchema,
   krakenTickerResponseSchema,
+  krakenTradesResponseSchema,
 } from '@shared/schema';
-import { OHLCData, TradingPair, Ticker } from './types';
+import type { ServerMessage } from '@shared/protocol';
+import { OHLCData, OHLCUpdate, TradingPair, Ticker, TickerUpdate, Trade, MarketSummary } from './types';
+import { buildMarketSummary } from './marketSummary';
+import { toTradingPair } from './pairs';
 
 // Use our server-side proxy routes instead of direct Kraken API calls
 const API_BASE = '/api/kraken';
@@ -12,7 +16,8 @@ const API_BASE = '/api/kraken';
 export async function fetchHistoricalOHLC(
   pair: string, 
   interval: number = 5,
-  since?: number
+  since?: number,
+  before?: number
 ): Promise<{ ohlc: OHLCData[], last: number }> {
   const params = new URLSearchParams({
     pair,
@@ -23,6 +28,11 @@ export async function fetchHistoricalOHLC(
     params.append('since', since.toString());
   }
 
+  // Page backwards through the server's stored history
+  if (before) {
+    params.append('before', before.toString());
+  }
+
   const response = await fetch(`${API_BASE}/ohlc?${params.toString()}`);
   
   if (!response.ok) {
@@ -74,18 +84,15 @@ export async function fetchTradingPairs(): Promise<TradingPair[]> {
     throw new Error(`Kraken API error: ${parsed.error.join(', ')}`);
   }
 
+  // Every quote currency; dark pool pairs (".d") have no public market data
   const pairs: TradingPair[] = Object.entries(parsed.result)
-    .filter(([_id, info]) => info.quote === 'ZUSD' || info.quote === 'USD')
-    .map(([id, info]) => ({
-      id,
-      name: info.altname,
-      wsname: info.wsname || info.altname, // Some pairs may not have wsname
-    }));
-
-  return pairs;
+    .filter(([id]) => !id.endsWith('.d'))
+    .map(([id, info]) => toTradingPair(id, info));
+
+  return pairs.sort((a, b) => a.name.localeCompare(b.name));
 }
 
-export async function fetchTickerInfo(pair: string): Promise<Ticker> {
+async function fetchTickerData(pair: string) {
   const params = new URLSearchParams({ pair });
   
   const response = await fetch(`${API_BASE}/ticker?${params.toString()}`);
@@ -106,20 +113,16 @@ export async function fetchTickerInfo(pair: string): Promise<Ticker> {
     throw new Error(`No ticker information found for pair: ${pair}`);
   }
 
-  // Calculate price change
-  const last = parseFloat(tickerInfo.c[0]);
-  const open = parseFloat(tickerInfo.o);
-  const change = last - open;
-  const changePercent = (change / open) * 100;
+  return tickerInfo;
+}
 
-  // Format with 2 decimal places for percentage, and appropriate for price
-  const formattedChange = change.toFixed(2);
-  const formattedChangePercent = changePercent.toFixed(2);
+export async function fetchTickerInfo(pair: string): Promise<Ticker> {
+  const tickerInfo = await fetchTickerData(pair);
 
+  // The change is derived from last and open when shown, so live prices update it too
   const ticker: Ticker = {
     last: tickerInfo.c[0],
-    change: `${change >= 0 ? '+' : ''}${formattedChange}`,
-    changePercent: `${formattedChangePercent}%`,
+    open: tickerInfo.o,
     high: tickerInfo.h[1], // 24h high
     low: tickerInfo.l[1], // 24h low
     volume: tickerInfo.v[1], // 24h volume
@@ -129,48 +132,92 @@ export async function fetchTickerInfo(pair: string): Promise<Ticker> {
   return ticker;
 }
 
-// Create a WebSocket connection to our server-side proxy
-export function createKrakenWebSocket(): WebSocket {
-  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  const wsUrl = `${protocol}//${window.location.host}/ws`;
-  return new WebSocket(wsUrl);
+// Combine the 24h ticker with daily candles for the longer term figures
+export async function fetchMarketSummary(pair: string): Promise<MarketSummary> {
+  const [tickerInfo, { ohlc: daily }] = await Promise.all([
+    fetchTickerData(pair),
+    fetchHistoricalOHLC(pair, 1440),
+  ]);
+
+  return buildMarketSummary(tickerInfo, daily);
+}
+
+// Shared by the REST Trades endpoint and the WebSocket trade channel
+function toTrade(price: string, volume: string, time: number | string, direction: Trade['direction']): Trade {
+  const timestamp = typeof time === 'number' ? time : parseFloat(time);
+  return {
+    timestamp,
+    time: new Date(timestamp * 1000).toLocaleTimeString(),
+    price,
+    amount: volume,
+    direction,
+  };
+}
+
+export async function fetchRecentTrades(pair: string, count: number = 50): Promise<Trade[]> {
+  const params = new URLSearchParams({ pair, count: count.toString() });
+
+  const response = await fetch(`${API_BASE}/trades?${params.toString()}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch recent trades: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const parsed = krakenTradesResponseSchema.parse(data);
+
+  if (parsed.error && parsed.error.length > 0) {
+    throw new Error(`Kraken API error: ${parsed.error.join(', ')}`);
+  }
+
+  const trades = parsed.result[pair];
+  if (!Array.isArray(trades)) {
+    throw new Error('Invalid trades data format received from Kraken');
+  }
+
+  // Oldest first, like the live feed
+  return trades.map(([price, volume, time, side]) => toTrade(price, volume, time, side === 'b' ? 'buy' : 'sell'));
 }
 
-// Parse WebSocket OHLC data update
-export function parseOHLCUpdate(message: any): OHLCData | null {
-  try {
-    let data: any[] | null = null;
-    
-    // Format 1: [channelID, data, channelName, pair]
-    if (Array.isArray(message) && typeof message[0] === 'number' && message[2] === 'ohlc') {
-      data = message[1];
-    } 
-    // Format 2: [data, channelName, pair]
-    else if (Array.isArray(message) && Array.isArray(message[0]) && message[1] === 'ohlc') {
-      data = message[0];
-    }
-    // Format 3: Custom structure from our server
-    else if (Array.isArray(message) && message[2] === 'ohlc' && Array.isArray(message[1])) {
-      data = message[1];
-    }
-    
-    if (data && Array.isArray(data)) {
-      // Make sure we have enough elements in the data array
-      if (data.length >= 8) {
-        return {
-          time: new Date(parseInt(String(data[1])) * 1000),
-          open: parseFloat(String(data[2])),
-          high: parseFloat(String(data[3])),
-          low: parseFloat(String(data[4])),
-          close: parseFloat(String(data[5])),
-          volume: parseFloat(String(data[7])),
-        };
-      }
-    }
-    
+// Live OHLC update from the WebSocket
+export function parseOHLCUpdate(message: ServerMessage): OHLCUpdate | null {
+  if (message.type !== 'update' || message.channel !== 'ohlc') {
     return null;
-  } catch (error) {
-    // console.error('Error parsing OHLC update:', error, 'Message:', message);
+  }
+
+  const { candle } = message;
+  return {
+    pair: message.pair,
+    interval: message.interval,
+    candle: {
+      time: new Date(candle.time * 1000),
+      open: parseFloat(candle.open),
+      high: parseFloat(candle.high),
+      low: parseFloat(candle.low),
+      close: parseFloat(candle.close),
+      volume: parseFloat(candle.volume),
+    },
+  };
+}
+
+// Live trades from the WebSocket, oldest first
+export function parseTradeUpdate(message: ServerMessage): Trade[] {
+  if (message.type !== 'update' || message.channel !== 'trade') {
+    return [];
+  }
+
+  return message.trades.map(trade => toTrade(trade.price, trade.volume, trade.time, trade.side));
+}
+
+// Live ticker update from the WebSocket
+export function parseTickerUpdate(message: ServerMessage): TickerUpdate | null {
+  if (message.type !== 'update' || message.channel !== 'ticker') {
     return null;
   }
+
+  const last = parseFloat(message.ticker.last);
+  const open24h = parseFloat(message.ticker.open24h);
+  if (!Number.isFinite(last)) return null;
+
+  return { pair: message.pair, last, open24h };
 }
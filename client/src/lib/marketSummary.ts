@@ -0,0 +1,50 @@
+import { MarketSummary, OHLCData } from './types';
+
+// The ticker fields the summary is built from, as returned by Kraken
+export interface TickerStats {
+  o: string;             // today's opening price (UTC)
+  h: [string, string];   // [today, last 24 hours]
+  l: [string, string];
+  v: [string, string];
+  p: [string, string];   // volume weighted average price
+}
+
+// Percentage change between the latest close and the close `days` candles earlier
+export function changeOverDays(daily: OHLCData[], days: number): number | null {
+  if (daily.length <= days) return null;
+  const latest = daily[daily.length - 1].close;
+  const previous = daily[daily.length - 1 - days].close;
+  return previous > 0 ? ((latest - previous) / previous) * 100 : null;
+}
+
+// Annualized standard deviation of daily log returns over the last `days` candles.
+// Crypto trades every day of the year, hence 365 rather than 252.
+export function realizedVolatility(daily: OHLCData[], days: number): number | null {
+  if (daily.length <= days) return null;
+
+  const closes = daily.slice(-(days + 1)).map((candle) => candle.close);
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+
+  return Math.sqrt(variance) * Math.sqrt(365) * 100;
+}
+
+export function buildMarketSummary(ticker: TickerStats, daily: OHLCData[]): MarketSummary {
+  const volumeBase = parseFloat(ticker.v[1]);
+  const vwap = parseFloat(ticker.p[1]);
+  const lastMonth = daily.slice(-30);
+
+  return {
+    openToday: parseFloat(ticker.o),
+    high24h: parseFloat(ticker.h[1]),
+    low24h: parseFloat(ticker.l[1]),
+    volumeBase,
+    volumeQuote: volumeBase * vwap,
+    change7d: changeOverDays(daily, 7),
+    change30d: changeOverDays(daily, 30),
+    high30d: lastMonth.length > 0 ? Math.max(...lastMonth.map((c) => c.high)) : null,
+    low30d: lastMonth.length > 0 ? Math.min(...lastMonth.map((c) => c.low)) : null,
+    volatility30d: realizedVolatility(daily, 30),
+  };
+}
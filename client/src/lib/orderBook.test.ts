@@ -0,0 +1,70 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySnapshot, applyUpdate, bookChecksum, crc32, type BookLevel } from './orderBook';
+
+const level = (price: string, volume = '0.00000500'): BookLevel => ({ price, volume });
+const prices = (levels: BookLevel[]) => levels.map((entry) => entry.price);
+
+// The example book of Kraken's checksum documentation
+const krakenExample = {
+  asks: ['0.05005', '0.05010', '0.05015', '0.05020', '0.05025', '0.05030', '0.05035', '0.05040', '0.05045', '0.05050'].map((price) => level(price)),
+  bids: ['0.05000', '0.04995', '0.04990', '0.04980', '0.04975', '0.04970', '0.04965', '0.04960', '0.04955', '0.04950'].map((price) => level(price)),
+};
+
+describe('order book', () => {
+  test('crc32 matches the standard check value', () => {
+    assert.equal(crc32('123456789'), 0xcbf43926);
+  });
+
+  test('checksums the example book like Kraken', () => {
+    assert.equal(bookChecksum(applySnapshot(krakenExample, 10)), '974947235');
+  });
+
+  test('checksums only the top 10 levels of each side', () => {
+    const deeper = {
+      asks: [...krakenExample.asks, level('0.05055')],
+      bids: [...krakenExample.bids, level('0.04945')],
+    };
+
+    assert.equal(bookChecksum(applySnapshot(deeper, 25)), '974947235');
+  });
+
+  test('sorts snapshot levels and truncates them to the depth', () => {
+    const book = applySnapshot(
+      {
+        asks: [level('3'), level('1'), level('2')],
+        bids: [level('0.5'), level('0.9'), level('0.7')],
+      },
+      2
+    );
+
+    assert.deepEqual(prices(book.asks), ['1', '2']);
+    assert.deepEqual(prices(book.bids), ['0.9', '0.7']);
+  });
+
+  test('deletes levels updated with zero volume', () => {
+    const book = applySnapshot({ asks: [level('1'), level('2')], bids: [level('0.9'), level('0.8')] }, 10);
+
+    const updated = applyUpdate(book, { asks: [level('1', '0.00000000')], bids: [level('0.8', '0')] }, 10);
+
+    assert.deepEqual(prices(updated.asks), ['2']);
+    assert.deepEqual(prices(updated.bids), ['0.9']);
+  });
+
+  test('replaces levels by price, however the price is written', () => {
+    const book = applySnapshot({ asks: [level('1.50', '1')], bids: [] }, 10);
+
+    const updated = applyUpdate(book, { asks: [level('1.5', '2')], bids: [] }, 10);
+
+    assert.deepEqual(updated.asks, [level('1.5', '2')]);
+  });
+
+  test('drops levels pushed beyond the depth by an update', () => {
+    const book = applySnapshot({ asks: [level('2'), level('3')], bids: [level('0.9')] }, 2);
+
+    const updated = applyUpdate(book, { asks: [level('1')], bids: [] }, 2);
+
+    assert.deepEqual(prices(updated.asks), ['1', '2']);
+    assert.equal(updated.bids, book.bids);
+  });
+});
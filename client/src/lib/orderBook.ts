@@ -0,0 +1,125 @@
+import { OrderBook, OrderBookEntry } from './types';
+
+// Price levels as Kraken sends them. Prices and volumes are kept as the
+// original strings because the checksum is computed from them.
+export interface BookLevel {
+  price: string;
+  volume: string;
+}
+
+export interface BookState {
+  asks: BookLevel[]; // lowest price first
+  bids: BookLevel[]; // highest price first
+}
+
+export const orderBookDepths = [10, 25, 100] as const;
+export type OrderBookDepth = typeof orderBookDepths[number];
+
+// Levels of a snapshot, or the changed levels of an update
+export interface BookChanges {
+  asks: BookLevel[];
+  bids: BookLevel[];
+}
+
+const byPriceAsc = (a: BookLevel, b: BookLevel) => parseFloat(a.price) - parseFloat(b.price);
+const byPriceDesc = (a: BookLevel, b: BookLevel) => parseFloat(b.price) - parseFloat(a.price);
+
+// Insert, replace or (for zero volume) delete levels, keeping the side sorted
+// and no deeper than the subscribed depth
+function applyLevels(
+  side: BookLevel[],
+  updates: BookLevel[],
+  compare: (a: BookLevel, b: BookLevel) => number,
+  depth: number
+): BookLevel[] {
+  const levels = new Map(side.map((level) => [parseFloat(level.price), level]));
+
+  updates.forEach((level) => {
+    const key = parseFloat(level.price);
+    if (parseFloat(level.volume) === 0) {
+      levels.delete(key);
+    } else {
+      levels.set(key, level);
+    }
+  });
+
+  return Array.from(levels.values()).sort(compare).slice(0, depth);
+}
+
+export function applySnapshot(snapshot: BookChanges, depth: number): BookState {
+  return {
+    asks: applyLevels([], snapshot.asks, byPriceAsc, depth),
+    bids: applyLevels([], snapshot.bids, byPriceDesc, depth),
+  };
+}
+
+export function applyUpdate(book: BookState, changes: BookChanges, depth: number): BookState {
+  return {
+    asks: changes.asks.length > 0 ? applyLevels(book.asks, changes.asks, byPriceAsc, depth) : book.asks,
+    bids: changes.bids.length > 0 ? applyLevels(book.bids, changes.bids, byPriceDesc, depth) : book.bids,
+  };
+}
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(input: string): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < input.length; i++) {
+    crc = crcTable[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Kraken formats each value by dropping the decimal point and leading zeros
+const checksumValue = (value: string) => value.replace('.', '').replace(/^0+/, '');
+
+/**
+ * Kraken's book checksum: CRC32 over the top 10 asks (lowest first) followed
+ * by the top 10 bids (highest first), each level as price then volume.
+ * https://docs.kraken.com/websockets/#book-checksum
+ */
+export function bookChecksum(book: BookState): string {
+  const levels = [...book.asks.slice(0, 10), ...book.bids.slice(0, 10)];
+  const payload = levels
+    .map((level) => checksumValue(level.price) + checksumValue(level.volume))
+    .join('');
+  return crc32(payload).toString();
+}
+
+// Cumulative totals for one side of the book, nearest price first
+function toEntries(levels: BookLevel[], maxTotal: number): OrderBookEntry[] {
+  let total = 0;
+  return levels.map((level) => {
+    total += parseFloat(level.volume);
+    return {
+      price: level.price,
+      amount: level.volume,
+      total: total.toString(),
+      percentage: maxTotal > 0 ? (total / maxTotal) * 100 : 0,
+    };
+  });
+}
+
+// Depth bars are scaled against the deeper of the two sides
+export function toOrderBook(book: BookState, depth: number): OrderBook {
+  const asks = book.asks.slice(0, depth);
+  const bids = book.bids.slice(0, depth);
+  const sum = (levels: BookLevel[]) =>
+    levels.reduce((acc, level) => acc + parseFloat(level.volume), 0);
+  const maxTotal = Math.max(sum(asks), sum(bids));
+
+  return {
+    asks: toEntries(asks, maxTotal),
+    bids: toEntries(bids, maxTotal),
+  };
+}
@@ -0,0 +1,61 @@
+import type { TradingPairInfo } from '@shared/schema';
+import { TradingPair } from './types';
+
+// Quote currencies listed first in the pair picker, the rest follow alphabetically
+const quoteOrder = ['USD', 'EUR', 'GBP', 'USDT', 'USDC', 'XBT', 'ETH', 'CAD', 'JPY', 'CHF', 'AUD'];
+
+// Build a TradingPair from an AssetPairs entry. Base and quote are taken
+// from the WebSocket name ("XBT/EUR") rather than the asset codes
+// ("XXBT", "ZEUR"), which is also what users search for.
+export function toTradingPair(id: string, info: TradingPairInfo): TradingPair {
+  const wsname = info.wsname || info.altname; // Some pairs may not have wsname
+  const [base, quote] = info.wsname ? info.wsname.split('/') : [info.base, info.quote];
+
+  return {
+    id,
+    name: wsname,
+    wsname,
+    base,
+    quote,
+    pair_decimals: info.pair_decimals,
+    lot_decimals: info.lot_decimals,
+  };
+}
+
+function compareQuotes(a: string, b: string): number {
+  const rankA = quoteOrder.indexOf(a);
+  const rankB = quoteOrder.indexOf(b);
+  if (rankA !== rankB) {
+    if (rankA === -1) return 1;
+    if (rankB === -1) return -1;
+    return rankA - rankB;
+  }
+  return a.localeCompare(b);
+}
+
+// Pairs grouped by quote currency, in picker order
+export function groupPairsByQuote(pairs: TradingPair[]): Array<{ quote: string; pairs: TradingPair[] }> {
+  const groups = new Map<string, TradingPair[]>();
+  pairs.forEach(pair => {
+    const group = groups.get(pair.quote);
+    if (group) {
+      group.push(pair);
+    } else {
+      groups.set(pair.quote, [pair]);
+    }
+  });
+
+  return Array.from(groups.keys())
+    .sort(compareQuotes)
+    .map(quote => ({
+      quote,
+      pairs: groups.get(quote)!.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+// Look up saved pair ids, skipping the ones that are no longer listed
+export function pairsById(ids: string[], pairs: TradingPair[]): TradingPair[] {
+  return ids
+    .map(id => pairs.find(pair => pair.id === id))
+    .filter((pair): pair is TradingPair => pair !== undefined);
+}
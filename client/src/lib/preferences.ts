@@ -0,0 +1,111 @@
+import { preferencesSchema, type Preferences, type PaneSettings } from '@shared/schema';
+import { IndicatorConfig, indicatorDefinitions } from './indicators';
+
+/**
+ * Dashboard preferences as kept for anonymous visitors.
+ *
+ * Signed in users have the same document on the server. Before there was a
+ * preferences model the pair, interval and layout lived in separate
+ * localStorage keys; those are read once, folded into the document and
+ * removed.
+ */
+
+const PREFERENCES_KEY = 'krakenPreferences';
+
+// Most panes a layout can have
+const MAX_PANES = 6;
+
+// Pairs offered under "Recent" in the pair picker
+const MAX_RECENT_PAIRS = 8;
+
+export const defaultPreferences: Preferences = preferencesSchema.parse({});
+
+// Keys written by earlier versions, "krakenChart" for the first chart and
+// "krakenChart<N>" for the other charts of the grid
+function legacyPaneKey(index: number): string {
+  return index === 0 ? 'krakenChart' : `krakenChart${index}`;
+}
+
+function legacyKeys(): string[] {
+  const keys = ['krakenChartLayout', 'krakenChartLinked'];
+  for (let index = 0; index < MAX_PANES; index++) {
+    keys.push(`${legacyPaneKey(index)}Pair`, `${legacyPaneKey(index)}Interval`);
+  }
+  return keys;
+}
+
+function readLegacyPreferences(): Preferences {
+  const panes: PaneSettings[] = [];
+  for (let index = 0; index < MAX_PANES; index++) {
+    const pair = localStorage.getItem(`${legacyPaneKey(index)}Pair`) ?? undefined;
+    const interval = parseInt(localStorage.getItem(`${legacyPaneKey(index)}Interval`) ?? '', 10);
+    panes.push({
+      pair,
+      interval: interval > 0 ? interval : undefined,
+      indicators: [],
+    });
+  }
+  // Drop trailing panes nothing was stored for
+  while (panes.length > 0 && !panes[panes.length - 1].pair && !panes[panes.length - 1].interval) {
+    panes.pop();
+  }
+
+  const parsed = preferencesSchema.safeParse({
+    layout: parseInt(localStorage.getItem('krakenChartLayout') ?? '', 10) || undefined,
+    linked: localStorage.getItem('krakenChartLinked') === 'true',
+    panes,
+  });
+  return parsed.success ? parsed.data : { ...defaultPreferences, panes };
+}
+
+export function hasLegacyPreferences(): boolean {
+  return legacyKeys().some(key => localStorage.getItem(key) !== null);
+}
+
+export function clearLegacyPreferences() {
+  legacyKeys().forEach(key => localStorage.removeItem(key));
+}
+
+export function loadLocalPreferences(): Preferences {
+  const stored = localStorage.getItem(PREFERENCES_KEY);
+  if (stored) {
+    try {
+      const parsed = preferencesSchema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+    } catch (e) {
+      // Unreadable, start over from the legacy keys or defaults
+    }
+  }
+
+  if (hasLegacyPreferences()) {
+    const migrated = readLegacyPreferences();
+    saveLocalPreferences(migrated);
+    clearLegacyPreferences();
+    return migrated;
+  }
+  return defaultPreferences;
+}
+
+export function saveLocalPreferences(preferences: Preferences) {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+// Stored indicators of types this build doesn't know are skipped
+export function validIndicators(configs: PaneSettings['indicators']): IndicatorConfig[] {
+  return configs.filter(
+    (config): config is IndicatorConfig => config.type in indicatorDefinitions
+  );
+}
+
+export function withRecentPair(recent: string[], id: string): string[] {
+  return [id, ...recent.filter(entry => entry !== id)].slice(0, MAX_RECENT_PAIRS);
+}
+
+export function withPane(preferences: Preferences, index: number, changes: Partial<PaneSettings>): Preferences {
+  const panes = [...preferences.panes];
+  while (panes.length <= index) {
+    panes.push({ indicators: [] });
+  }
+  panes[index] = { ...panes[index], ...changes };
+  return { ...preferences, panes };
+}
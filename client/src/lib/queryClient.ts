@@ -7,6 +7,23 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Readable message for errors thrown by apiRequest, whose message is
+// "<status>: <body>" with our API answering { error: [...] }
+export function apiErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return "Unknown error";
+
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error.message);
+  if (!match) return error.message;
+  try {
+    const body = JSON.parse(match[1]);
+    if (Array.isArray(body?.error) && body.error.length > 0) return body.error.join(", ");
+    if (typeof body?.message === "string") return body.message;
+  } catch {
+    // Not JSON, use the text as is
+  }
+  return match[1];
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -0,0 +1,72 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveResampler, baseIntervalFor, bucketStart, formatInterval, resampleCandles } from './resample';
+import type { OHLCData } from './types';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+function candle(iso: string, open: number, high: number, low: number, close: number, volume = 1): OHLCData {
+  return { time: utc(iso), open, high, low, close, volume };
+}
+
+describe('resampling', () => {
+  test('picks the largest native interval that divides the custom one', () => {
+    assert.equal(baseIntervalFor(3), 1);
+    assert.equal(baseIntervalFor(120), 60);
+    assert.equal(baseIntervalFor(720), 240);
+    assert.equal(baseIntervalFor(4320), 1440);
+  });
+
+  test('labels custom intervals by their largest whole unit', () => {
+    assert.equal(formatInterval(120), '2h');
+    assert.equal(formatInterval(2880), '2d');
+    assert.equal(formatInterval(90), '90m');
+  });
+
+  test('aligns buckets to UTC boundaries', () => {
+    assert.deepEqual(new Date(bucketStart(utc('2024-01-01T03:30:00'), 120)), utc('2024-01-01T02:00:00'));
+    assert.deepEqual(new Date(bucketStart(utc('2024-01-01T05:59:00'), 360)), utc('2024-01-01T00:00:00'));
+    assert.deepEqual(new Date(bucketStart(utc('2024-01-01T13:00:00'), 720)), utc('2024-01-01T12:00:00'));
+    // 3 day buckets count from the epoch, not from the start of a month
+    assert.deepEqual(new Date(bucketStart(utc('2024-01-01T08:00:00'), 4320)), utc('2023-12-31T00:00:00'));
+  });
+
+  test('combines the base candles of each bucket and drops a partial first bucket', () => {
+    const hourly = [
+      candle('2024-01-01T01:00:00', 9, 12, 8, 10),
+      candle('2024-01-01T02:00:00', 10, 15, 9, 14, 2),
+      candle('2024-01-01T03:00:00', 14, 16, 7, 8, 3),
+      candle('2024-01-01T04:00:00', 8, 9, 6, 7, 4),
+    ];
+
+    assert.deepEqual(resampleCandles(hourly, 120), [
+      candle('2024-01-01T02:00:00', 10, 16, 7, 8, 5),
+      candle('2024-01-01T04:00:00', 8, 9, 6, 7, 4),
+    ]);
+  });
+});
+
+describe('LiveResampler', () => {
+  test('re-aggregates the forming candle as its base candles are revised', () => {
+    const live = new LiveResampler(120);
+    live.reset([
+      candle('2024-01-01T01:00:00', 9, 12, 8, 10),
+      candle('2024-01-01T02:00:00', 10, 15, 9, 14, 2),
+    ]);
+
+    // The forming 1h candle is sent again with every trade
+    live.update(candle('2024-01-01T03:00:00', 14, 16, 13, 15, 1));
+    const revised = live.update(candle('2024-01-01T03:00:00', 14, 17, 13, 16, 3));
+
+    assert.deepEqual(revised, candle('2024-01-01T02:00:00', 10, 17, 9, 16, 5));
+  });
+
+  test('starts a new custom candle with the first base candle of its bucket', () => {
+    const live = new LiveResampler(120);
+    live.reset([candle('2024-01-01T02:00:00', 10, 15, 9, 14, 2)]);
+
+    const next = live.update(candle('2024-01-01T04:00:00', 14, 15, 13, 13));
+
+    assert.deepEqual(next, candle('2024-01-01T04:00:00', 14, 15, 13, 13));
+  });
+});
@@ -0,0 +1,128 @@
+import { OHLCData, TimeInterval, timeIntervals, isSupportedInterval } from './types';
+
+/**
+ * Custom timeframes built from finer native candles.
+ *
+ * A custom interval is resampled from the largest native Kraken interval
+ * that divides it evenly, e.g. 2h from 1h and 12h from 4h candles.
+ * Buckets are aligned to the Unix epoch in UTC, which puts every interval
+ * that divides a day on UTC midnight boundaries.
+ */
+
+// Custom timeframes offered next to the native ones
+export const customTimeIntervals: TimeInterval[] = [
+  { value: 3, label: '3 min', shortLabel: '3m' },
+  { value: 10, label: '10 min', shortLabel: '10m' },
+  { value: 120, label: '2 hours', shortLabel: '2h' },
+  { value: 360, label: '6 hours', shortLabel: '6h' },
+  { value: 720, label: '12 hours', shortLabel: '12h' },
+  { value: 4320, label: '3 days', shortLabel: '3d' },
+];
+
+export const isCustomInterval = (minutes: number): boolean => !isSupportedInterval(minutes);
+
+// Native interval the candles of `minutes` are resampled from
+export function baseIntervalFor(minutes: number): number {
+  const candidates = timeIntervals
+    .map(interval => interval.value)
+    .filter(value => value <= minutes && minutes % value === 0);
+  return candidates[candidates.length - 1] ?? timeIntervals[0].value;
+}
+
+// Short label such as "2h" or "3d" for any interval
+export function formatInterval(minutes: number): string {
+  const known = [...timeIntervals, ...customTimeIntervals].find(interval => interval.value === minutes);
+  if (known) return known.shortLabel;
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+// Start of the bucket the time falls into, in milliseconds
+export function bucketStart(time: Date, minutes: number): number {
+  const size = minutes * 60000;
+  return Math.floor(time.getTime() / size) * size;
+}
+
+// Combine consecutive candles of one bucket into a single candle
+export function aggregateCandles(candles: OHLCData[], start: number): OHLCData {
+  return {
+    time: new Date(start),
+    open: candles[0].open,
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    close: candles[candles.length - 1].close,
+    volume: candles.reduce((sum, candle) => sum + candle.volume, 0),
+  };
+}
+
+/**
+ * Resample sorted base candles into `minutes` candles.
+ * The first bucket is dropped when the base candles start part way into
+ * it, since it would show a misleading open, high and low.
+ */
+export function resampleCandles(
+  candles: OHLCData[],
+  minutes: number,
+  baseInterval: number = baseIntervalFor(minutes)
+): OHLCData[] {
+  const result: OHLCData[] = [];
+  let bucket: OHLCData[] = [];
+  let start = 0;
+
+  candles.forEach(candle => {
+    const candleBucket = bucketStart(candle.time, minutes);
+    if (bucket.length > 0 && candleBucket !== start) {
+      result.push(aggregateCandles(bucket, start));
+      bucket = [];
+    }
+    start = candleBucket;
+    bucket.push(candle);
+  });
+  if (bucket.length > 0) {
+    result.push(aggregateCandles(bucket, start));
+  }
+
+  const first = candles[0];
+  if (first && minutes > baseInterval && first.time.getTime() !== bucketStart(first.time, minutes)) {
+    result.shift();
+  }
+  return result;
+}
+
+/**
+ * Builds the forming custom candle from live base candles.
+ * Kraken revises the forming base candle with every update, so the base
+ * candles of the current bucket are kept and re-aggregated each time.
+ */
+export class LiveResampler {
+  private candles: OHLCData[] = [];
+
+  constructor(readonly minutes: number) {}
+
+  // Seed with the tail of the historical base candles
+  reset(candles: OHLCData[] = []) {
+    const last = candles[candles.length - 1];
+    if (!last) {
+      this.candles = [];
+      return;
+    }
+    const start = bucketStart(last.time, this.minutes);
+    this.candles = candles.filter(candle => candle.time.getTime() >= start);
+  }
+
+  // Apply a live base candle and return the custom candle it belongs to
+  update(candle: OHLCData): OHLCData {
+    const start = bucketStart(candle.time, this.minutes);
+    const time = candle.time.getTime();
+
+    this.candles = this.candles.filter(existing => {
+      const existingTime = existing.time.getTime();
+      return existingTime >= start && existingTime !== time;
+    });
+    this.candles.push(candle);
+    this.candles.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    return aggregateCandles(this.candles, start);
+  }
+}
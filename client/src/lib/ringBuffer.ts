@@ -0,0 +1,41 @@
+// Fixed capacity buffer that overwrites its oldest items once full
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private size = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(...values: T[]): void {
+    values.forEach((value) => {
+      const index = (this.start + this.size) % this.capacity;
+      this.items[index] = value;
+      if (this.size < this.capacity) {
+        this.size++;
+      } else {
+        this.start = (this.start + 1) % this.capacity;
+      }
+    });
+  }
+
+  // Oldest item first
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.size; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.size = 0;
+  }
+}
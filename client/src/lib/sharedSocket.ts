@@ -0,0 +1,318 @@
+import {
+  clientMessage,
+  serverMessageSchema,
+  type Channel,
+  type ClientMessage,
+  type ServerMessage,
+  type UpstreamHealth,
+} from '@shared/protocol';
+import { KrakenWebSocketSubscription } from './types';
+
+/**
+ * The one WebSocket connection to our /ws proxy shared by every hook on the page.
+ *
+ * Hooks register message and state listeners and reference count their
+ * channel subscriptions, so several charts showing the same pair cause a
+ * single subscribe on the wire and the last one to leave unsubscribes.
+ * Both directions speak the protocol of shared/protocol.ts; messages that
+ * don't validate against it are dropped.
+ */
+
+export interface ConnectionState {
+  isConnected: boolean;
+  error: Error | null;
+  // The server's connection to Kraken, null until the server reported it
+  health: UpstreamHealth | null;
+}
+
+type MessageListener = (message: ServerMessage) => void;
+type StateListener = (state: ConnectionState, previous: ConnectionState) => void;
+
+let nextReqid = 1;
+
+const toChannel = (subscription: KrakenWebSocketSubscription): Channel => ({
+  name: subscription.name,
+  pair: subscription.token,
+  ...(subscription.interval ? { interval: subscription.interval } : {}),
+  ...(subscription.depth ? { depth: subscription.depth } : {}),
+});
+
+// Subscriptions are identified by channel options and pair, not just the channel name
+export function subscriptionKey(subscription: KrakenWebSocketSubscription): string {
+  return [subscription.name, subscription.interval ?? '', subscription.depth ?? '', subscription.token].join(':');
+}
+
+// Book updates only make sense on top of a snapshot, which Kraken sends on subscribe
+const needsSnapshot = (subscription: KrakenWebSocketSubscription) => subscription.name === 'book';
+
+const maxReconnectAttempts = 5; // Maximum number of reconnection attempts
+const maxReconnectDelay = 10000; // 10 seconds max
+const baseReconnectDelay = 1000; // Start with 1 second
+const connectionTimeout = 10000; // 10 second connection timeout
+const pingInterval = 1000;
+// Keep the socket around briefly after the last user leaves, e.g. while
+// the chart grid is being rearranged
+const idleCloseDelay = 2000;
+
+class SharedSocket {
+  private socket: WebSocket | null = null;
+  private users = 0;
+  private reconnectAttempts = 0;
+  private closeTimer: number | null = null;
+  private messageListeners = new Set<MessageListener>();
+  private stateListeners = new Set<StateListener>();
+  private subscriptions = new Map<string, { subscription: KrakenWebSocketSubscription; count: number }>();
+
+  state: ConnectionState = { isConnected: false, error: null, health: null };
+
+  // Register a user of the connection, which is opened on first use.
+  // Returns the release function.
+  acquire(): () => void {
+    this.users += 1;
+    if (this.closeTimer !== null) {
+      window.clearTimeout(this.closeTimer);
+      this.closeTimer = null;
+    }
+    this.connect();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.users -= 1;
+      if (this.users === 0) {
+        this.closeTimer = window.setTimeout(() => {
+          this.closeTimer = null;
+          if (this.users === 0) this.disconnect();
+        }, idleCloseDelay);
+      }
+    };
+  }
+
+  addMessageListener(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  addStateListener(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  subscribe(subscription: KrakenWebSocketSubscription) {
+    this.subscribeMany([subscription]);
+  }
+
+  unsubscribe(subscription: KrakenWebSocketSubscription) {
+    this.unsubscribeMany([subscription]);
+  }
+
+  // Several channels, e.g. the tickers of a watchlist, go out as a single request
+  subscribeMany(subscriptions: KrakenWebSocketSubscription[]) {
+    const added: KrakenWebSocketSubscription[] = [];
+
+    subscriptions.forEach(subscription => {
+      const key = subscriptionKey(subscription);
+      const entry = this.subscriptions.get(key);
+
+      if (entry) {
+        entry.count += 1;
+        // A new subscriber to a book needs a snapshot of its own
+        if (needsSnapshot(subscription)) added.push(subscription);
+        return;
+      }
+
+      this.subscriptions.set(key, { subscription, count: 1 });
+      added.push(subscription);
+    });
+
+    this.sendSubscriptions('subscribe', added);
+  }
+
+  unsubscribeMany(subscriptions: KrakenWebSocketSubscription[]) {
+    const removed: KrakenWebSocketSubscription[] = [];
+
+    subscriptions.forEach(subscription => {
+      const key = subscriptionKey(subscription);
+      const entry = this.subscriptions.get(key);
+      if (!entry) return;
+
+      entry.count -= 1;
+      if (entry.count <= 0) {
+        this.subscriptions.delete(key);
+        removed.push(subscription);
+      }
+    });
+
+    this.sendSubscriptions('unsubscribe', removed);
+  }
+
+  // Open a fresh connection so the server sees the current session, e.g.
+  // after signing in. Subscriptions are replayed on the new connection.
+  reconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+      socket.close(1000, 'Session changed');
+    }
+    if (this.users > 0) this.connect();
+  }
+
+  send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setState(next: Partial<ConnectionState>) {
+    const previous = this.state;
+    this.state = { ...previous, ...next };
+    this.stateListeners.forEach(listener => listener(this.state, previous));
+  }
+
+  // All channels go out in a single request
+  private sendSubscriptions(type: 'subscribe' | 'unsubscribe', subscriptions: KrakenWebSocketSubscription[]) {
+    if (subscriptions.length === 0) return;
+    this.send(clientMessage({ type, reqid: nextReqid++, channels: subscriptions.map(toChannel) }));
+  }
+
+  private resubscribeAll() {
+    this.sendSubscriptions('subscribe', Array.from(this.subscriptions.values(), entry => entry.subscription));
+  }
+
+  private getReconnectDelay() {
+    // Exponential backoff with jitter and maximum limit
+    const exponentialDelay = Math.min(
+      maxReconnectDelay,
+      baseReconnectDelay * Math.pow(2, this.reconnectAttempts)
+    );
+    // Add jitter (0-20% random variation)
+    const jitter = Math.random() * 0.2 * exponentialDelay;
+    return exponentialDelay + jitter;
+  }
+
+  private scheduleReconnect() {
+    if (this.users === 0) return;
+
+    if (this.reconnectAttempts < maxReconnectAttempts) {
+      this.reconnectAttempts += 1;
+      const delay = this.getReconnectDelay();
+      // console.log(`Reconnecting in ${Math.round(delay/1000)}s (attempt ${this.reconnectAttempts} of ${maxReconnectAttempts})`);
+      window.setTimeout(() => this.connect(), delay);
+    } else {
+      // console.log(`Maximum reconnection attempts (${maxReconnectAttempts}) reached. Giving up.`);
+      this.setState({ error: new Error('Failed to connect after multiple attempts') });
+    }
+  }
+
+  private connect() {
+    if (this.socket && this.socket.readyState !== WebSocket.CLOSED) {
+      return;
+    }
+
+    try {
+      // Connect to our server-side WebSocket proxy
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      let ping: number | null = null;
+
+      const timeout = window.setTimeout(() => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          // console.log('WebSocket connection timed out, closing and retrying');
+          socket.close();
+        }
+      }, connectionTimeout);
+
+      socket.onopen = () => {
+        window.clearTimeout(timeout);
+        this.reconnectAttempts = 0; // Reset on successful connection
+
+        // Keep the connection alive, the server drops silent clients
+        ping = window.setInterval(() => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(clientMessage({ type: 'ping', timestamp: Date.now() })));
+          }
+        }, pingInterval);
+
+        this.resubscribeAll();
+        this.setState({ isConnected: true, error: null });
+      };
+
+      socket.onmessage = (event) => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(event.data);
+        } catch (parseError) {
+          return;
+        }
+        const result = serverMessageSchema.safeParse(parsed);
+        if (!result.success) {
+          // console.warn('Unexpected WebSocket message:', result.error);
+          return;
+        }
+        const data = result.data;
+
+        // Kraken connection status reported by our server, which
+        // replays our subscriptions itself when it reconnects
+        if (data.type === 'status') {
+          this.setState({ isConnected: data.connected, health: data.health });
+          return;
+        }
+
+        // Ignore pong responses and subscription acks, channels are
+        // tracked locally and refusals arrive as errors
+        if (data.type === 'pong' || data.type === 'subscribed' || data.type === 'unsubscribed') {
+          return;
+        }
+
+        this.messageListeners.forEach(listener => {
+          try {
+            listener(data);
+          } catch (err) {
+            // console.error('Error handling WebSocket message:', err);
+          }
+        });
+      };
+
+      socket.onclose = (event) => {
+        window.clearTimeout(timeout);
+        if (ping !== null) window.clearInterval(ping);
+        // A replaced connection leaves the state to its successor
+        if (this.socket !== null && this.socket !== socket) return;
+        this.socket = null;
+
+        this.setState({ isConnected: false, health: null });
+
+        // Reconnect unless the connection was closed intentionally
+        if (event.code !== 1000) {
+          this.scheduleReconnect();
+        }
+      };
+
+      socket.onerror = () => {
+        this.setState({ error: new Error('WebSocket connection error') });
+        // No need to reconnect here, the onclose handler will do it
+      };
+
+      this.socket = socket;
+    } catch (err) {
+      this.setState({ error: err instanceof Error ? err : new Error('Unknown WebSocket error') });
+      this.scheduleReconnect();
+    }
+  }
+
+  private disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+      socket.close(1000, 'User initiated disconnect');
+    }
+    this.setState({ isConnected: false });
+  }
+}
+
+export const sharedSocket = new SharedSocket();
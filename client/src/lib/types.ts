@@ -1,3 +1,5 @@
+import type { ChannelName } from '@shared/protocol';
+
 export interface OHLCData {
   time: Date;
   open: number;
@@ -7,10 +9,10 @@ export interface OHLCData {
   volume: number;
 }
 
+// Raw values as Kraken sends them, formatted for the pair when shown
 export interface Ticker {
   last: string;
-  change: string;
-  changePercent: string;
+  open: string;    // opening price of the current UTC day, the change is measured from it
   high: string;
   low: string;
   volume: string;
@@ -18,6 +20,7 @@ export interface Ticker {
 }
 
 export interface Trade {
+  timestamp: number; // unix seconds
   time: string;
   price: string;
   amount: string;
@@ -36,63 +39,84 @@ export interface OrderBook {
   asks: OrderBookEntry[];
 }
 
+// Everything here is derived from Kraken's Ticker endpoint and daily OHLC candles
 export interface MarketSummary {
-  open24h: string;
-  high24h: string;
-  low24h: string;
-  volumeBtc: string;
-  volumeUsd: string;
-  change30d: string;
-  marketCap: string;
+  openToday: number;     // ticker "o": opening price of the current UTC day
+  high24h: number;
+  low24h: number;
+  volumeBase: number;    // 24h volume in the base currency
+  volumeQuote: number;   // 24h volume times 24h VWAP, in the quote currency
+  change7d: number | null;   // percent
+  change30d: number | null;
+  high30d: number | null;
+  low30d: number | null;
+  volatility30d: number | null; // annualized percent, from daily log returns
 }
 
 export interface TradingPair {
   id: string;
   name: string;
   wsname: string;
+  base: string;           // e.g. "XBT", as in the WebSocket name
+  quote: string;          // e.g. "USD"
+  pair_decimals: number;  // price precision
+  lot_decimals: number;   // volume precision
 }
 
 export interface TimeInterval {
-  value: number;
+  value: number;  // minutes
   label: string;
+  shortLabel: string;
 }
 
+// Every interval Kraken serves OHLC data for
 export const timeIntervals: TimeInterval[] = [
-  { value: 5, label: '5 min' },
-  { value: 15, label: '15 min' },
-  { value: 30, label: '30 min' },
-  { value: 60, label: '1 hour' },
-  { value: 240, label: '4 hours' },
-  { value: 1440, label: '1 day' },
+  { value: 1, label: '1 min', shortLabel: '1m' },
+  { value: 5, label: '5 min', shortLabel: '5m' },
+  { value: 15, label: '15 min', shortLabel: '15m' },
+  { value: 30, label: '30 min', shortLabel: '30m' },
+  { value: 60, label: '1 hour', shortLabel: '1h' },
+  { value: 240, label: '4 hours', shortLabel: '4h' },
+  { value: 1440, label: '1 day', shortLabel: '1d' },
+  { value: 10080, label: '1 week', shortLabel: '1w' },
+  { value: 21600, label: '15 days', shortLabel: '15d' },
 ];
 
-export const defaultTradingPairs: TradingPair[] = [
-  { id: 'XXBTZUSD', name: 'BTC/USD', wsname: 'XBT/USD' },
-  { id: 'XETHZUSD', name: 'ETH/USD', wsname: 'ETH/USD' },
-  { id: 'XXRPZUSD', name: 'XRP/USD', wsname: 'XRP/USD' },
-  { id: 'SOLZUSD', name: 'SOL/USD', wsname: 'SOL/USD' },
-  { id: 'ADAZUSD', name: 'ADA/USD', wsname: 'ADA/USD' },
-];
+export const isSupportedInterval = (minutes: number): boolean =>
+  timeIntervals.some(interval => interval.value === minutes);
 
-export interface WebSocketMessage {
-  type: string;
-  data: any;
+// A live candle from the ohlc channel, with the series it belongs to
+export interface OHLCUpdate {
+  pair: string;      // WebSocket pair name, e.g. "XBT/USD"
+  interval: number;  // minutes, from the channel name
+  candle: OHLCData;
 }
 
-export interface KrakenOHLCUpdate {
-  channelID: number;
-  data: Array<string | number>;
-  channelName: string;
-  pair: string;
+// A ticker update, reduced to what the watchlist shows
+export interface TickerUpdate {
+  pair: string;      // WebSocket pair name, e.g. "XBT/USD"
+  last: number;
+  open24h: number;   // price 24 hours ago
 }
 
-export interface KrakenWebSocketSubscribeMessage {
-  name: string;
-  token?: string;
+// Watchlist row of a pair: live price, 24h change and recent hourly closes
+export interface WatchlistTicker {
+  last: number | null;
+  changePercent: number | null;
+  sparkline: number[];
 }
 
+export const defaultTradingPairs: TradingPair[] = [
+  { id: 'XXBTZUSD', name: 'BTC/USD', wsname: 'XBT/USD', base: 'XBT', quote: 'USD', pair_decimals: 1, lot_decimals: 8 },
+  { id: 'XETHZUSD', name: 'ETH/USD', wsname: 'ETH/USD', base: 'ETH', quote: 'USD', pair_decimals: 2, lot_decimals: 8 },
+  { id: 'XXRPZUSD', name: 'XRP/USD', wsname: 'XRP/USD', base: 'XRP', quote: 'USD', pair_decimals: 5, lot_decimals: 8 },
+  { id: 'SOLZUSD', name: 'SOL/USD', wsname: 'SOL/USD', base: 'SOL', quote: 'USD', pair_decimals: 2, lot_decimals: 8 },
+  { id: 'ADAZUSD', name: 'ADA/USD', wsname: 'ADA/USD', base: 'ADA', quote: 'USD', pair_decimals: 6, lot_decimals: 8 },
+];
+
 export interface KrakenWebSocketSubscription {
-  name: string;
+  name: ChannelName;
   interval?: number;
+  depth?: number;
   token: string;  // Changed from optional to required
 }
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BarChart } from 'lucide-react';
+import { useAuth, Credentials } from '@/hooks/useAuth';
+import { apiErrorMessage } from '@/lib/queryClient';
+
+type Mode = 'login' | 'register';
+
+interface CredentialsFormProps {
+  mode: Mode;
+  isPending: boolean;
+  error: unknown;
+  onSubmit: (credentials: Credentials) => void;
+}
+
+const CredentialsForm: React.FC<CredentialsFormProps> = ({ mode, isPending, error, onSubmit }) => {
+  const [username, setUsername] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit({ username: username.trim(), password });
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          autoComplete="username"
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+        />
+        {mode === 'register' && (
+          <p className="text-xs text-textSecondary">At least 8 characters</p>
+        )}
+      </div>
+      {error != null && <p className="text-sm text-accent">{apiErrorMessage(error)}</p>}
+      <Button type="submit" className="w-full" disabled={isPending || !username.trim() || !password}>
+        {mode === 'login' ? 'Sign in' : 'Create account'}
+      </Button>
+    </form>
+  );
+};
+
+const AuthPage: React.FC = () => {
+  const { loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<Mode>('login');
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-white text-black">
+      <Card className="w-full max-w-sm mx-4 bg-surface shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-xl font-medium flex items-center">
+            <BarChart className="text-primary mr-2 h-5 w-5" />
+            Kraken Market Data
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                mode="login"
+                isPending={loginMutation.isPending}
+                error={loginMutation.error}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                mode="register"
+                isPending={registerMutation.isPending}
+                error={registerMutation.error}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
@@ -1,29 +1,97 @@
-import React, { useState } from 'react';
-import { useKrakenData } from '@/hooks/useKrakenData';
-import { timeIntervals } from '@/lib/types';
-import ChartContainer from '@/components/ChartContainer';
-import PriceTicker from '@/components/PriceTicker';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Link } from 'wouter';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useAuth } from '@/hooks/useAuth';
+import { usePreferences } from '@/hooks/usePreferences';
+import type { UpstreamHealth } from '@shared/protocol';
+import { TradingPair, defaultTradingPairs } from '@/lib/types';
+import { CursorSync } from '@/lib/cursorSync';
+import ChartPane from '@/components/ChartPane';
 import MarketInsights from '@/components/MarketInsights';
-import PairSelector from '@/components/PairSelector';
-import IntervalSelector from '@/components/IntervalSelector';
-import { BarChart } from 'lucide-react';
+import AlertsPanel from '@/components/AlertsPanel';
+import WatchlistPanel from '@/components/WatchlistPanel';
+import PreferencesMenu from '@/components/PreferencesMenu';
+import { Button } from '@/components/ui/button';
+import { BarChart, Link2, Link2Off, LogIn, LogOut } from 'lucide-react';
+
+// Number of charts in the workspace grid
+const layouts = [1, 2, 4, 6] as const;
+type Layout = typeof layouts[number];
+
+const layoutGrid: Record<Layout, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 lg:grid-cols-2',
+  4: 'grid-cols-1 lg:grid-cols-2',
+  6: 'grid-cols-1 lg:grid-cols-2 xl:grid-cols-3',
+};
+
+// Price chart height per pane, smaller charts when there are more of them
+const layoutChartHeight: Record<Layout, number> = {
+  1: 440,
+  2: 400,
+  4: 320,
+  6: 280,
+};
+
+// The panes use their own hooks, this one only reports the shared connection
+const ignoreMessage = () => {};
+
+// Footer line for our connection and the server's connection to Kraken
+function connectionMessage(isConnected: boolean, health: UpstreamHealth | null): string {
+  if (!isConnected && health?.state !== 'maintenance') {
+    return "⚠ WebSocket disconnected - reconnecting...";
+  }
+  switch (health?.state) {
+    case 'maintenance':
+      return "⚠ Kraken is down for maintenance - live updates resume afterwards";
+    case 'degraded':
+      return "⚠ No updates from Kraken for a few seconds - waiting for data...";
+    default:
+      return "✓ WebSocket connected - receiving real-time updates";
+  }
+}
 
 const Dashboard: React.FC = () => {
-  const {
-    ohlcData,
-    ticker,
-    selectedPair,
-    interval,
-    availablePairs,
-    isLoading,
-    error,
-    isChartType,
-    isConnected,
-    setSelectedPair,
-    setInterval,
-    setChartType,
-    refreshData
-  } = useKrakenData();
+  const { preferences, updatePreferences } = usePreferences();
+  const layout: Layout = layouts.find(option => option === preferences.layout) ?? 1;
+  const isLinked = preferences.linked;
+  const [linkedPair, setLinkedPair] = useState<TradingPair | null>(null);
+  // Pair shown by each pane; the one last interacted with drives the market insights
+  const [panePairs, setPanePairs] = useState<Record<number, TradingPair>>({});
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const [pairRequest, setPairRequest] = useState<{ index: number; pair: TradingPair } | null>(null);
+  const cursorSync = useMemo(() => new CursorSync(), []);
+  const { isConnected, health } = useWebSocket(ignoreMessage);
+  const { user, logoutMutation } = useAuth();
+
+  const activeChart = activeIndex < layout ? activeIndex : 0;
+  const activePair = panePairs[activeChart] ?? defaultTradingPairs[0];
+
+  const handleLayoutChange = (next: Layout) => {
+    updatePreferences({ layout: next });
+  };
+
+  const handleLinkToggle = () => {
+    const next = !isLinked;
+    updatePreferences({ linked: next });
+    // Linking starts from the pair shown in the active pane
+    setLinkedPair(next ? activePair : null);
+  };
+
+  const handlePairChange = useCallback((pair: TradingPair) => {
+    if (isLinked) {
+      setLinkedPair(pair);
+    }
+  }, [isLinked]);
+
+  // Watchlist rows load into the active chart, and through it into linked ones
+  const handleWatchlistSelect = (pair: TradingPair) => {
+    setPairRequest({ index: activeChart, pair });
+  };
+
+  const handlePairShown = useCallback((index: number, pair: TradingPair) => {
+    setPanePairs(current => (current[index]?.id === pair.id ? current : { ...current, [index]: pair }));
+  }, []);
 
   return (
     <div className="min-h-screen flex flex-col bg-white text-black">
@@ -34,19 +102,54 @@ const Dashboard: React.FC = () => {
             <BarChart className="text-primary mr-2 h-5 w-5" />
             <h1 className="text-xl font-medium">Kraken Market Data</h1>
           </div>
-          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
-            <PairSelector 
-              pairs={availablePairs}
-              selectedPair={selectedPair}
-              onSelect={setSelectedPair}
-              className="flex-grow sm:flex-grow-0 z-10"
-            />
-            {/* <IntervalSelector
-              intervals={timeIntervals}
-              selectedInterval={interval}
-              onSelect={setInterval}
-              className="flex-grow sm:flex-grow-0"
-            /> */}
+          <div className="flex gap-2 items-center">
+            <span className="text-xs text-textSecondary">Charts</span>
+            {layouts.map(option => (
+              <Button
+                key={option}
+                variant={layout === option ? 'secondary' : 'outline'}
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => handleLayoutChange(option)}
+              >
+                {option}
+              </Button>
+            ))}
+            <Button
+              variant={isLinked ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-8"
+              onClick={handleLinkToggle}
+              disabled={layout === 1}
+              title="Link symbol and crosshair across charts"
+            >
+              {isLinked ? <Link2 className="h-4 w-4 mr-1" /> : <Link2Off className="h-4 w-4 mr-1" />}
+              {isLinked ? 'Linked' : 'Unlinked'}
+            </Button>
+            <PreferencesMenu />
+            {user ? (
+              <>
+                <span className="text-xs text-textSecondary ml-2">{user.username}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  title="Sign out"
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              // Preferences stay in this browser until signing in
+              <Button asChild variant="outline" size="sm" className="h-8">
+                <Link href="/auth">
+                  <LogIn className="h-4 w-4 mr-1" />
+                  Sign in
+                </Link>
+              </Button>
+            )}
           </div>
         </div>
       </header>
@@ -54,33 +157,45 @@ const Dashboard: React.FC = () => {
       {/* Main Content */}
       <main className="flex-grow p-4">
         <div className="container mx-auto">
-          {/* Price Ticker */}
-          <PriceTicker 
-            ticker={ticker} 
-            pairName={selectedPair.name} 
-            isLoading={isLoading} 
-          />
-
-          {/* Chart */}
-          <ChartContainer
-            data={ohlcData}
-            isLoading={isLoading}
-            chartType={isChartType}
-            onChartTypeChange={setChartType}
-            onRefresh={refreshData}
-          />
+          {/* Charts */}
+          <div className={`grid gap-4 ${layoutGrid[layout]}`}>
+            {Array.from({ length: layout }, (_, index) => (
+              <ChartPane
+                key={index}
+                index={index}
+                height={layoutChartHeight[layout]}
+                showTicker={layout === 1}
+                linkedPair={isLinked ? linkedPair : null}
+                pairRequest={pairRequest?.index === index ? pairRequest : null}
+                cursorSync={isLinked && layout > 1 ? cursorSync : undefined}
+                onPairChange={handlePairChange}
+                onPairShown={handlePairShown}
+                onActivate={setActiveIndex}
+              />
+            ))}
+          </div>
 
           {/* Market Insights */}
-          {/* <MarketInsights /> */}
+          <MarketInsights pair={activePair} />
+
+          {/* Watchlists with live mini-tickers */}
+          <div className="mt-4">
+            <WatchlistPanel activePair={activePair} onSelectPair={handleWatchlistSelect} />
+          </div>
+
+          {/* Alerts, created for the active pair, need an account */}
+          {user && (
+            <div className="mt-4">
+              <AlertsPanel pair={activePair} />
+            </div>
+          )}
         </div>
       </main>
 
       {/* Footer */}
       <footer className="bg-surface p-4 text-center text-textSecondary text-xs">
         <p className="mt-1">
-          {isConnected 
-            ? "✓ WebSocket connected - receiving real-time updates" 
-            : "⚠ WebSocket disconnected - reconnecting..."}
+          {connectionMessage(isConnected, health)}
         </p>
       </footer>
     </div>
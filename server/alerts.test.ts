@@ -0,0 +1,147 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlertEvent, InsertAlert } from '@shared/schema';
+import type { ProtocolCandle } from '@shared/protocol';
+import { MemStorage } from './storage';
+import { AlertEngine } from './alerts';
+import type { ChannelSubscription } from './subscriptions';
+
+function candle(time: number, close: number, volume = 1): ProtocolCandle {
+  const price = close.toString();
+  return { time, open: price, high: price, low: price, close: price, vwap: price, volume: volume.toString(), count: 1 };
+}
+
+// Saving a triggered alert fails as often as asked
+class FlakyStorage extends MemStorage {
+  failures = 0;
+
+  async updateAlert(...args: Parameters<MemStorage['updateAlert']>) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Database is down');
+    }
+    return super.updateAlert(...args);
+  }
+}
+
+async function engineWith(alert: InsertAlert, storage = new FlakyStorage()) {
+  const subscribed: ChannelSubscription[] = [];
+  const unsubscribed: ChannelSubscription[] = [];
+  const events: AlertEvent[] = [];
+  const created = await storage.createAlert(1, alert);
+  const engine = new AlertEngine(storage, {
+    subscribe: subscription => subscribed.push(subscription),
+    unsubscribe: subscription => unsubscribed.push(subscription),
+    onTrigger: event => events.push(event),
+  });
+  await engine.load();
+
+  // Triggered alerts reach onTrigger once they are saved
+  async function feed(interval: number, ...candles: ProtocolCandle[]) {
+    candles.forEach(sample => engine.handleCandle('XBT/USD', interval, sample));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  return { storage, engine, created, subscribed, unsubscribed, events, feed };
+}
+
+describe('AlertEngine', () => {
+  const minute = Math.floor(Date.now() / 60000) * 60;
+
+  test('fires price alerts when the price crosses the threshold', async () => {
+    const { storage, engine, created, subscribed, unsubscribed, events, feed } =
+      await engineWith({ pair: 'XBT/USD', condition: 'price_above', threshold: 100 });
+
+    // The first price is only the baseline
+    await feed(1, candle(minute, 101));
+    assert.equal(events.length, 0);
+
+    await feed(1, candle(minute, 99), candle(minute, 100.5), candle(minute, 99), candle(minute, 101));
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].price, 100.5);
+    assert.equal(events[0].message, 'XBT/USD crossed above 100 at 100.5');
+    assert.equal(events[0].alert.active, false);
+    assert.equal((await storage.getAlert(1, created.id))?.active, false);
+    assert.equal(engine.hasActiveAlerts, false);
+    assert.deepEqual(subscribed, [{ name: 'ohlc', pair: 'XBT/USD', interval: 1 }]);
+    assert.deepEqual(unsubscribed, subscribed);
+  });
+
+  test('measures percent moves against the closes within the lookback', async () => {
+    const { events, feed } = await engineWith({
+      pair: 'XBT/USD',
+      condition: 'percent_move',
+      threshold: 5,
+      lookback: 10,
+    });
+
+    // 50 closes before the lookback and doesn't count
+    await feed(1, candle(minute - 1200, 50), candle(minute - 120, 100), candle(minute - 60, 102));
+    assert.equal(events.length, 0);
+
+    await feed(1, candle(minute, 106));
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].message, 'XBT/USD moved up 6.00% within 10 min to 106');
+  });
+
+  test('fires candle alerts on the close of a candle of their interval', async () => {
+    const { subscribed, events, feed } = await engineWith({
+      pair: 'XBT/USD',
+      condition: 'close_above',
+      threshold: 100,
+      interval: 5,
+    });
+
+    // Only the last update of a candle is its close
+    await feed(5, candle(minute, 101), candle(minute, 99), candle(minute + 300, 105));
+    assert.equal(events.length, 0);
+
+    await feed(1, candle(minute + 600, 110));
+    assert.equal(events.length, 0);
+
+    await feed(5, candle(minute + 600, 110));
+
+    assert.deepEqual(subscribed, [{ name: 'ohlc', pair: 'XBT/USD', interval: 5 }]);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].price, 105);
+    assert.equal(events[0].message, 'XBT/USD 5m candle closed above 100 at 105');
+  });
+
+  test('fires volume spikes against the average of the closed candles', async () => {
+    const { events, feed } = await engineWith({
+      pair: 'XBT/USD',
+      condition: 'volume_spike',
+      threshold: 3,
+      interval: 5,
+      lookback: 2,
+    });
+
+    await feed(5, candle(minute, 100, 8), candle(minute + 300, 100, 12), candle(minute + 600, 100, 29));
+    assert.equal(events.length, 0);
+
+    // The forming candle is checked as its volume grows
+    await feed(5, candle(minute + 600, 101, 30));
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].message, 'XBT/USD 5m volume is 3.0x the 2 candle average');
+  });
+
+  test('watches an alert again when saving its trigger failed', async () => {
+    const storage = new FlakyStorage();
+    storage.failures = 1;
+    const { engine, subscribed, events, feed } =
+      await engineWith({ pair: 'XBT/USD', condition: 'price_below', threshold: 100 }, storage);
+
+    await feed(1, candle(minute, 101), candle(minute, 99));
+    assert.equal(events.length, 0);
+    assert.equal(engine.hasActiveAlerts, true);
+
+    await feed(1, candle(minute, 101), candle(minute, 98));
+
+    assert.equal(subscribed.length, 2);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].message, 'XBT/USD crossed below 100 at 98');
+  });
+});
@@ -0,0 +1,249 @@
+import type { Alert, AlertEvent } from '@shared/schema';
+import type { ProtocolCandle } from '@shared/protocol';
+import type { IStorage } from './storage';
+import { subscriptionKey, type ChannelSubscription } from './subscriptions';
+
+/**
+ * Evaluates the active alerts against the live Kraken ohlc feed.
+ *
+ * Price rules watch the 1 minute candles of their pair, whose close is the
+ * last traded price. Candle rules watch candles of the alert's own interval
+ * and a candle counts as closed once the next one starts. Alerts fire once:
+ * a triggered alert is deactivated until it is re-armed.
+ */
+
+// The parts of a candle the rules look at, time is the candle start in unix seconds
+export interface CandleSample {
+  time: number;
+  close: number;
+  volume: number;
+}
+
+export interface AlertEngineOptions {
+  subscribe(subscription: ChannelSubscription): void;
+  unsubscribe(subscription: ChannelSubscription): void;
+  onTrigger(event: AlertEvent): void;
+  // Recent closed candles to evaluate lookback rules before enough live candles were seen
+  loadHistory?(pair: string, interval: number, count: number): Promise<CandleSample[]>;
+}
+
+// Live state of one pair/interval series
+interface Series {
+  forming: CandleSample | null;
+  closed: CandleSample[]; // oldest first
+}
+
+// Keep a day of 1 minute candles, the longest percent_move lookback
+const MAX_CLOSED_CANDLES = 1440;
+
+const priceConditions = new Set<Alert['condition']>(['price_above', 'price_below', 'percent_move']);
+
+// Series an alert is evaluated on
+function alertSubscription(alert: Alert): ChannelSubscription {
+  return {
+    name: 'ohlc',
+    pair: alert.pair,
+    interval: priceConditions.has(alert.condition) ? 1 : alert.interval,
+  };
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(8)).toString();
+}
+
+export class AlertEngine {
+  private alerts = new Map<number, Alert>();
+  private channels = new Map<string, ChannelSubscription>();
+  private series = new Map<string, Series>();
+
+  constructor(private storage: IStorage, private options: AlertEngineOptions) {}
+
+  // Start watching every active alert in storage
+  async load() {
+    const alerts = await this.storage.getActiveAlerts();
+    alerts.forEach(alert => this.alerts.set(alert.id, alert));
+    this.syncChannels();
+  }
+
+  get hasActiveAlerts(): boolean {
+    return this.alerts.size > 0;
+  }
+
+  // Add or refresh an alert after it was created or edited
+  track(alert: Alert) {
+    if (alert.active) {
+      this.alerts.set(alert.id, alert);
+    } else {
+      this.alerts.delete(alert.id);
+    }
+    this.syncChannels();
+  }
+
+  untrack(id: number) {
+    this.alerts.delete(id);
+    this.syncChannels();
+  }
+
+  // Feed a live candle of the upstream ohlc feed
+  handleCandle(pair: string, interval: number, candle: ProtocolCandle) {
+    const key = subscriptionKey({ name: 'ohlc', pair, interval });
+    const series = this.series.get(key);
+    if (!series) return;
+
+    const sample: CandleSample = {
+      time: candle.time,
+      close: parseFloat(candle.close),
+      volume: parseFloat(candle.volume),
+    };
+    if (isNaN(sample.close) || isNaN(sample.volume)) return;
+
+    const previous = series.forming;
+    if (previous && sample.time < previous.time) return;
+
+    if (previous && sample.time > previous.time) {
+      series.closed.push(previous);
+      if (series.closed.length > MAX_CLOSED_CANDLES) series.closed.shift();
+      this.evaluateClose(pair, interval, previous);
+    }
+    series.forming = sample;
+
+    if (interval === 1) {
+      this.evaluatePrice(pair, sample.close, previous?.close, series.closed);
+    }
+    this.evaluateVolume(pair, interval, sample, series.closed);
+  }
+
+  private alertsFor(pair: string, test: (alert: Alert) => boolean): Alert[] {
+    return Array.from(this.alerts.values()).filter(alert => alert.pair === pair && test(alert));
+  }
+
+  private evaluatePrice(pair: string, price: number, previous: number | undefined, closed: CandleSample[]) {
+    this.alertsFor(pair, alert => priceConditions.has(alert.condition)).forEach(alert => {
+      switch (alert.condition) {
+        case 'price_above':
+          // Crossing only, the first price seen is just the baseline
+          if (previous !== undefined && previous < alert.threshold && price >= alert.threshold) {
+            this.trigger(alert, price, `${pair} crossed above ${formatNumber(alert.threshold)} at ${formatNumber(price)}`);
+          }
+          break;
+        case 'price_below':
+          if (previous !== undefined && previous > alert.threshold && price <= alert.threshold) {
+            this.trigger(alert, price, `${pair} crossed below ${formatNumber(alert.threshold)} at ${formatNumber(price)}`);
+          }
+          break;
+        case 'percent_move': {
+          const since = Math.floor(Date.now() / 1000) - alert.lookback * 60;
+          const closes = closed.filter(candle => candle.time >= since).map(candle => candle.close);
+          if (closes.length === 0) break;
+
+          const low = Math.min(...closes);
+          const high = Math.max(...closes);
+          const up = low > 0 ? ((price - low) / low) * 100 : 0;
+          const down = high > 0 ? ((high - price) / high) * 100 : 0;
+          if (Math.max(up, down) >= alert.threshold) {
+            const move = up >= down ? `up ${up.toFixed(2)}%` : `down ${down.toFixed(2)}%`;
+            this.trigger(alert, price, `${pair} moved ${move} within ${alert.lookback} min to ${formatNumber(price)}`);
+          }
+          break;
+        }
+      }
+    });
+  }
+
+  private evaluateClose(pair: string, interval: number, candle: CandleSample) {
+    this.alertsFor(pair, alert => alert.interval === interval).forEach(alert => {
+      if (alert.condition === 'close_above' && candle.close > alert.threshold) {
+        this.trigger(alert, candle.close, `${pair} ${interval}m candle closed above ${formatNumber(alert.threshold)} at ${formatNumber(candle.close)}`);
+      } else if (alert.condition === 'close_below' && candle.close < alert.threshold) {
+        this.trigger(alert, candle.close, `${pair} ${interval}m candle closed below ${formatNumber(alert.threshold)} at ${formatNumber(candle.close)}`);
+      }
+    });
+  }
+
+  // The forming candle is checked so a spike is reported while it happens
+  private evaluateVolume(pair: string, interval: number, candle: CandleSample, closed: CandleSample[]) {
+    this.alertsFor(pair, alert => alert.condition === 'volume_spike' && alert.interval === interval).forEach(alert => {
+      if (closed.length < alert.lookback) return;
+
+      const recent = closed.slice(-alert.lookback);
+      const average = recent.reduce((sum, sample) => sum + sample.volume, 0) / recent.length;
+      if (average > 0 && candle.volume >= alert.threshold * average) {
+        const ratio = candle.volume / average;
+        this.trigger(alert, candle.close, `${pair} ${interval}m volume is ${ratio.toFixed(1)}x the ${alert.lookback} candle average`);
+      }
+    });
+  }
+
+  private trigger(alert: Alert, price: number, message: string) {
+    // Forget the alert while it is saved so later frames can't fire it again
+    this.untrack(alert.id);
+
+    const triggeredAt = Math.floor(Date.now() / 1000);
+    this.storage
+      .updateAlert(alert.userId, alert.id, { active: false, triggeredAt })
+      .then(updated => {
+        this.options.onTrigger({
+          type: 'alert',
+          alert: updated ?? { ...alert, active: false, triggeredAt },
+          price,
+          message,
+        });
+      })
+      .catch(() => {
+        // console.error('Error saving triggered alert:', error);
+        // Still active in storage: watch it again, it fires on its next match
+        if (!this.alerts.has(alert.id)) this.track(alert);
+      });
+  }
+
+  // Hold exactly the upstream subscriptions the active alerts need
+  private syncChannels() {
+    const needed = new Map<string, ChannelSubscription>();
+    this.alerts.forEach(alert => {
+      const subscription = alertSubscription(alert);
+      needed.set(subscriptionKey(subscription), subscription);
+    });
+
+    this.channels.forEach((subscription, key) => {
+      if (!needed.has(key)) {
+        this.channels.delete(key);
+        this.series.delete(key);
+        this.options.unsubscribe(subscription);
+      }
+    });
+
+    needed.forEach((subscription, key) => {
+      if (this.channels.has(key)) return;
+      this.channels.set(key, subscription);
+      this.series.set(key, { forming: null, closed: [] });
+      this.options.subscribe(subscription);
+      this.seed(key, subscription);
+    });
+  }
+
+  // Prepend stored history to a new series so lookback rules work from the start
+  private seed(key: string, subscription: ChannelSubscription) {
+    const interval = subscription.interval ?? 1;
+    const lookbacks = Array.from(this.alerts.values())
+      .filter(alert => subscriptionKey(alertSubscription(alert)) === key)
+      .map(alert => (alert.condition === 'percent_move' ? alert.lookback : alert.lookback + 1));
+    const count = Math.max(0, ...lookbacks);
+    if (!this.options.loadHistory || count === 0) return;
+
+    this.options
+      .loadHistory(subscription.pair, interval, count)
+      .then(history => {
+        const series = this.series.get(key);
+        if (!series) return;
+
+        // Only candles that have closed and predate the live ones
+        const closedBefore = Math.floor(Date.now() / 1000) - interval * 60;
+        const firstLive = series.closed[0]?.time ?? series.forming?.time ?? Infinity;
+        const older = history.filter(candle => candle.time <= closedBefore && candle.time < firstLive);
+        series.closed = [...older, ...series.closed].slice(-MAX_CLOSED_CANDLES);
+      })
+      .catch(() => {
+        // Live candles fill the lookback eventually
+      });
+  }
+}
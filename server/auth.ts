@@ -0,0 +1,187 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { storage, UsernameTakenError } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Stored as "<hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Never send the password hash to clients
+export function publicUser(user: SelectUser) {
+  return { id: user.id, username: user.username };
+}
+
+// Sessions live next to the rest of the data: Postgres when configured, memory otherwise
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PostgresSessionStore = connectPg(session);
+    return new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// WebSocket upgrades bypass Express, their session is read with the same parser
+let sessionParser: RequestHandler | null = null;
+
+// The signed in user of a WebSocket upgrade request, undefined for anonymous clients
+export function sessionUserId(req: IncomingMessage): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    if (!sessionParser) return resolve(undefined);
+
+    const request = req as Request;
+    sessionParser(request, {} as Response, () => {
+      const data = request.session as { passport?: { user?: number } } | undefined;
+      resolve(data?.passport?.user);
+    });
+  });
+}
+
+// Guard for routes that need a signed in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: ["Not signed in"] });
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    console.warn("SESSION_SECRET is not set, sessions will not survive a restart");
+  }
+
+  const isProduction = app.get("env") === "production";
+  if (isProduction) {
+    app.set("trust proxy", 1);
+  }
+
+  // The session and passport typings pull in their own @types/express,
+  // so their middleware is typed against ours here
+  sessionParser = session({
+    secret: process.env.SESSION_SECRET ?? randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: isProduction,
+      maxAge: SESSION_MAX_AGE,
+    },
+  }) as unknown as RequestHandler;
+  app.use(sessionParser);
+  app.use(passport.initialize() as unknown as RequestHandler);
+  app.use(passport.session() as unknown as RequestHandler);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user just ends the session
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
+    }
+
+    try {
+      // The unique username constraint decides between concurrent registrations
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(publicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof UsernameTakenError) {
+        return res.status(409).json({ error: ["Username is already taken"] });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: ["Invalid username or password"] });
+      }
+
+      // Passport regenerates the session on login, which prevents session fixation
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(publicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: ["Not signed in"] });
+    }
+    res.json(publicUser(req.user));
+  });
+}
@@ -0,0 +1,165 @@
+import { test, describe, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { TtlCache } from './cache';
+
+describe('TtlCache', () => {
+  const policy = { ttlMs: 60000, staleMs: 0 };
+
+  test('serves fresh entries without loading again', async () => {
+    const cache = new TtlCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.get('key', policy, load);
+    const result = await cache.get('key', policy, load);
+
+    assert.deepEqual(result, { value: 1, status: 'HIT', age: 0 });
+  });
+
+  test('reloads entries stored before the time the caller needs', async () => {
+    const cache = new TtlCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.get('key', policy, load);
+    const reloaded = await cache.get('key', policy, load, Date.now() + 1000);
+
+    assert.deepEqual(reloaded, { value: 2, status: 'MISS', age: 0 });
+    assert.equal((await cache.get('key', policy, load)).value, 2);
+  });
+
+  test('keeps entries stored after the time the caller needs', async () => {
+    const cache = new TtlCache();
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.get('key', policy, load);
+    const result = await cache.get('key', policy, load, Date.now() - 1000);
+
+    assert.equal(result.status, 'HIT');
+    assert.equal(loads, 1);
+  });
+
+  test('throttles reloads of young entries', async () => {
+    const cache = new TtlCache();
+    const throttled = { ...policy, minRefreshMs: 5000 };
+    let loads = 0;
+    const load = async () => ++loads;
+
+    await cache.get('key', throttled, load);
+    const result = await cache.get('key', throttled, load, Date.now() + 1000);
+
+    assert.equal(result.status, 'HIT');
+    assert.equal(loads, 1);
+  });
+
+  test('concurrent reloads share one load', async () => {
+    const cache = new TtlCache();
+    let loads = 0;
+    const load = async () => ++loads;
+    await cache.get('key', policy, load);
+
+    const notBefore = Date.now() + 1000;
+    const results = await Promise.all([
+      cache.get('key', policy, load, notBefore),
+      cache.get('key', policy, load, notBefore),
+    ]);
+
+    assert.deepEqual(results.map(result => result.value), [2, 2]);
+  });
+
+  describe('over time', () => {
+    const swr = { ttlMs: 1000, staleMs: 5000 };
+    let time = 0;
+    const clock = () => time;
+
+    // A load the test settles by hand
+    function deferredLoad() {
+      const calls: { resolve(value: number): void; reject(error: Error): void }[] = [];
+      const load = () => new Promise<number>((resolve, reject) => calls.push({ resolve, reject }));
+      return { calls, load };
+    }
+
+    beforeEach(() => {
+      time = 1000000;
+    });
+
+    test('loads again once the entry has expired', async () => {
+      const cache = new TtlCache(10, clock);
+      let loads = 0;
+      const load = async () => ++loads;
+
+      await cache.get('key', { ttlMs: 1000, staleMs: 0 }, load);
+      time += 999;
+      const fresh = await cache.get('key', { ttlMs: 1000, staleMs: 0 }, load);
+      time += 1;
+      const expired = await cache.get('key', { ttlMs: 1000, staleMs: 0 }, load);
+
+      assert.deepEqual(fresh, { value: 1, status: 'HIT', age: 0 });
+      assert.deepEqual(expired, { value: 2, status: 'MISS', age: 0 });
+    });
+
+    test('serves a stale entry while one background load refreshes it', async () => {
+      const cache = new TtlCache(10, clock);
+      const { calls, load } = deferredLoad();
+
+      const first = cache.get('key', swr, load);
+      calls[0].resolve(1);
+      await first;
+
+      time += 2000;
+      const stale = await Promise.all([cache.get('key', swr, load), cache.get('key', swr, load)]);
+      assert.deepEqual(stale, [
+        { value: 1, status: 'STALE', age: 2 },
+        { value: 1, status: 'STALE', age: 2 },
+      ]);
+      assert.equal(calls.length, 2);
+
+      calls[1].resolve(2);
+      await new Promise(resolve => setImmediate(resolve));
+      assert.deepEqual(await cache.get('key', swr, load), { value: 2, status: 'HIT', age: 0 });
+    });
+
+    test('keeps the stale entry when the background load fails', async () => {
+      const cache = new TtlCache(10, clock);
+      const { calls, load } = deferredLoad();
+
+      const first = cache.get('key', swr, load);
+      calls[0].resolve(1);
+      await first;
+
+      time += 2000;
+      await cache.get('key', swr, load);
+      calls[1].reject(new Error('Kraken is down'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // The next request tries again
+      assert.deepEqual(await cache.get('key', swr, load), { value: 1, status: 'STALE', age: 2 });
+      assert.equal(calls.length, 3);
+
+      time += 5000;
+      const expired = cache.get('key', swr, load);
+      calls[2].resolve(2);
+      assert.deepEqual(await expired, { value: 2, status: 'MISS', age: 0 });
+    });
+  });
+
+  test('evicts the least recently used entries beyond its size', async () => {
+    const cache = new TtlCache(2);
+    const loads: string[] = [];
+    const load = (key: string) => async () => {
+      loads.push(key);
+      return key;
+    };
+
+    await cache.get('a', policy, load('a'));
+    await cache.get('b', policy, load('b'));
+    await cache.get('a', policy, load('a'));
+    await cache.get('c', policy, load('c'));
+
+    assert.equal(cache.size, 2);
+    assert.equal((await cache.get('a', policy, load('a'))).status, 'HIT');
+    assert.equal((await cache.get('b', policy, load('b'))).status, 'MISS');
+    assert.deepEqual(loads, ['a', 'b', 'c', 'b']);
+  });
+});
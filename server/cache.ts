@@ -0,0 +1,132 @@
+import type { Response } from 'express';
+
+/**
+ * In-memory TTL cache for the Kraken REST proxy.
+ *
+ * Concurrent requests for the same key share a single upstream fetch.
+ * After an entry expires it is still served for the stale window of its
+ * policy while one background fetch refreshes it. Failed fetches are never
+ * stored, so errors are retried by the next request.
+ */
+
+export interface CachePolicy {
+  ttlMs: number;    // served as is
+  staleMs: number;  // then served while revalidating in the background
+  // Youngest entry a caller may have reloaded by asking for newer data, see get
+  minRefreshMs?: number;
+}
+
+// HIT: fresh entry, STALE: expired entry being refreshed,
+// MISS: fetched upstream, possibly together with concurrent requests
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  age: number; // seconds since the value was fetched
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export class TtlCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private maxEntries: number = DEFAULT_MAX_ENTRIES,
+    private now: () => number = Date.now // clock, replaced by the tests
+  ) {}
+
+  // Entries stored before `notBefore` (ms) predate what the caller needs and
+  // are loaded again, unless younger than the policy's minRefreshMs. That
+  // throttle keeps callers from forcing an upstream call on every request.
+  async get<T>(
+    key: string,
+    policy: CachePolicy,
+    load: () => Promise<T>,
+    notBefore?: number
+  ): Promise<CacheResult<T>> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    const outdated = entry !== undefined && notBefore !== undefined &&
+      entry.storedAt < notBefore && now - entry.storedAt >= (policy.minRefreshMs ?? 0);
+
+    if (entry && now < entry.staleUntil && !outdated) {
+      // Least recently used entries are evicted first
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+
+      const isFresh = now < entry.expiresAt;
+      if (!isFresh) {
+        this.fetch(key, policy, load).catch(() => {
+          // Keep serving the stale value, the next request tries again
+        });
+      }
+      return {
+        value: entry.value as T,
+        status: isFresh ? 'HIT' : 'STALE',
+        age: Math.floor((now - entry.storedAt) / 1000),
+      };
+    }
+
+    const value = await this.fetch(key, policy, load);
+    return { value, status: 'MISS', age: 0 };
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private fetch<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<T> {
+    const pending = this.pending.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = load()
+      .then(value => {
+        this.store(key, value, policy);
+        return value;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private store(key: string, value: unknown, policy: CachePolicy) {
+    const now = this.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      storedAt: now,
+      expiresAt: now + policy.ttlMs,
+      staleUntil: now + policy.ttlMs + policy.staleMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Tell clients, and anyone debugging with curl, how a response was served
+export function setCacheHeaders(res: Response, result: CacheResult<unknown>) {
+  res.setHeader('X-Cache', result.status);
+  res.setHeader('Age', result.age.toString());
+}
@@ -0,0 +1,92 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemCandleStore } from './storage';
+import { CandleHistory } from './candleHistory';
+import type { OHLCRow } from './candles';
+
+function row(time: number, close: string): OHLCRow {
+  return [time, close, close, close, close, close, '1.5', 3];
+}
+
+// Kraken keys OHLC results by pair id, whatever name the pair was requested by
+function fakeKraken(rows: OHLCRow[]) {
+  const requests: { pair: string; interval: number; since?: number }[] = [];
+  const fetchOHLC = async (pair: string, interval: number, since?: number) => {
+    requests.push({ pair, interval, since });
+    const newer = rows.filter(candle => since === undefined || candle[0] > since);
+    return { result: { XXBTZUSD: newer, last: newer[newer.length - 1]?.[0] ?? since ?? 0 } };
+  };
+  return { requests, fetchOHLC };
+}
+
+describe('CandleHistory', () => {
+  const rows = [row(1800, '100'), row(2100, '101'), row(2400, '102'), row(2700, '103')];
+
+  test('pages back through the candles stored by a sync', async () => {
+    const kraken = fakeKraken(rows);
+    const history = new CandleHistory(new MemCandleStore(), {
+      fetchOHLC: kraken.fetchOHLC,
+      lookupPairId: async () => undefined,
+    });
+
+    const sync = await history.sync('XBTUSD', 5);
+    const page = await history.candles('XBTUSD', 5, { before: 2700, limit: 2 });
+
+    assert.equal(sync.pairId, 'XXBTZUSD');
+    assert.equal(page.pairId, 'XXBTZUSD');
+    assert.deepEqual(page.candles.map(candle => [candle.time, candle.close]), [[2100, '101'], [2400, '102']]);
+  });
+
+  test('resolves names it has not synced yet with the lookup', async () => {
+    const kraken = fakeKraken(rows);
+    const store = new MemCandleStore();
+    const names: Record<string, string> = { 'XBT/USD': 'XXBTZUSD' };
+    const history = new CandleHistory(store, {
+      fetchOHLC: kraken.fetchOHLC,
+      lookupPairId: async pair => names[pair],
+    });
+
+    await history.sync('XBTUSD', 5);
+    const page = await history.candles('XBT/USD', 5, { before: 3000 });
+
+    assert.equal(page.candles.length, 4);
+    assert.deepEqual(await history.candles('ETHUSD', 5, { before: 3000 }), { pairId: 'ETHUSD', candles: [] });
+  });
+
+  test('resumes a sync from the newest stored candle', async () => {
+    const kraken = fakeKraken(rows);
+    const history = new CandleHistory(new MemCandleStore(), {
+      fetchOHLC: kraken.fetchOHLC,
+      lookupPairId: async () => undefined,
+    });
+
+    await history.sync('XBTUSD', 5);
+    const { last } = await history.sync('XBTUSD', 5);
+
+    // The newest stored candle may have been forming, so it is fetched again
+    assert.deepEqual(kraken.requests.map(request => request.since), [undefined, 2400]);
+    assert.equal(last, 2700);
+  });
+
+  test('records a hole when Kraken no longer serves the candles after the newest stored one', async () => {
+    const served = rows.slice(0, 2);
+    const kraken = fakeKraken(served);
+    const history = new CandleHistory(new MemCandleStore(), {
+      fetchOHLC: kraken.fetchOHLC,
+      lookupPairId: async () => undefined,
+    });
+
+    const first = await history.sync('XBTUSD', 5);
+    // Kraken moved on by more than its 720 candles in the meantime
+    served.splice(0, served.length, row(9000, '110'), row(9300, '111'));
+    const second = await history.sync('XBTUSD', 5);
+    const page = await history.candles('XBTUSD', 5, { before: 9600 });
+
+    assert.equal(first.hole, null);
+    assert.deepEqual(second.hole, { from: 2100, to: 9000 });
+    assert.deepEqual(page.candles.map(candle => candle.time), [1800, 2100, 9000, 9300]);
+    assert.deepEqual(history.holes('XXBTZUSD', 5, 1800, 2100), [{ from: 2100, to: 9000 }]);
+    assert.deepEqual(history.holes('XXBTZUSD', 5, 9300, 9300), []);
+    assert.deepEqual(history.holes('XXBTZUSD', 15, 1800, 9300), []);
+  });
+});
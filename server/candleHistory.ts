@@ -0,0 +1,92 @@
+import type { Candle } from '@shared/schema';
+import type { CandleQuery, ICandleStore } from './storage';
+import { candleFromRow, type OHLCRow } from './candles';
+
+/**
+ * OHLC history served from the candle store and kept up to date with Kraken.
+ *
+ * Candles are stored by Kraken's pair id ("XXBTZUSD"), while requests may
+ * name a pair by any of its names ("XBTUSD", "XBT/USD"). Every read resolves
+ * the pair id first, from earlier syncs or the asset pairs.
+ *
+ * Kraken only returns its latest 720 candles. When the newest stored candle
+ * is older than that, e.g. after a long downtime, the candles in between
+ * can't be had anymore. Such holes are recorded and reported with the
+ * candles around them.
+ */
+
+export interface OHLCResponse {
+  result?: Record<string, OHLCRow[] | number>;
+}
+
+// Candles missing between two stored candles, by their start times in unix seconds
+export interface HistoryHole {
+  from: number;
+  to: number;
+}
+
+export interface CandleHistoryOptions {
+  // Kraken's OHLC endpoint, candles starting after `since` when given
+  fetchOHLC(pair: string, interval: number, since?: number): Promise<OHLCResponse>;
+  // Pair id for another name of the pair, undefined when unknown
+  lookupPairId(pair: string): Promise<string | undefined>;
+}
+
+export class CandleHistory {
+  // Pair ids Kraken keyed OHLC results with, by requested name
+  private pairIds = new Map<string, string>();
+  // Holes of each series, by `${pairId}:${interval}`, oldest first
+  private holeLists = new Map<string, HistoryHole[]>();
+
+  constructor(private store: ICandleStore, private options: CandleHistoryOptions) {}
+
+  async pairId(pair: string): Promise<string> {
+    const known = this.pairIds.get(pair);
+    if (known) return known;
+    return (await this.options.lookupPairId(pair)) ?? pair;
+  }
+
+  // Bring the stored candles of a series up to date with Kraken. Kraken only
+  // ever returns the latest 720 candles, so resume from the newest stored
+  // candle, and record a hole when Kraken can't go back that far anymore.
+  async sync(pair: string, interval: number): Promise<{ pairId: string; last: number | undefined; hole: HistoryHole | null }> {
+    const latest = await this.store.getLatestCandle(await this.pairId(pair), interval);
+
+    // Step back one candle so the previously forming candle gets its final values
+    const since = latest ? latest.time - interval * 60 : undefined;
+    const data = await this.options.fetchOHLC(pair, interval, since);
+
+    // Kraken keys the result by pair id, which may differ from the requested name
+    const result = data.result ?? {};
+    const entry = Object.entries(result).find(
+      ([key, value]) => key !== 'last' && Array.isArray(value)
+    );
+    const pairId = entry ? entry[0] : pair;
+    const rows = entry ? entry[1] as OHLCRow[] : [];
+    if (entry) this.pairIds.set(pair, pairId);
+
+    // Kraken started past the candle after our newest one
+    let hole: HistoryHole | null = null;
+    if (latest && rows.length > 0 && rows[0][0] > latest.time + interval * 60) {
+      hole = { from: latest.time, to: rows[0][0] };
+      const key = `${pairId}:${interval}`;
+      this.holeLists.set(key, [...(this.holeLists.get(key) ?? []), hole]);
+    }
+
+    await this.store.upsertCandles(rows.map(row => candleFromRow(pairId, interval, row)));
+
+    const last = typeof result.last === 'number' ? result.last : undefined;
+    return { pairId, last, hole };
+  }
+
+  // Recorded holes touching the candles from `from` to `to`, unix seconds
+  holes(pairId: string, interval: number, from: number, to: number): HistoryHole[] {
+    return (this.holeLists.get(`${pairId}:${interval}`) ?? []).filter(hole => hole.to >= from && hole.from <= to);
+  }
+
+  // Stored candles of a series, whatever name the pair was given by
+  async candles(pair: string, interval: number, query: CandleQuery): Promise<{ pairId: string; candles: Candle[] }> {
+    const pairId = await this.pairId(pair);
+    return { pairId, candles: await this.store.getCandles(pairId, interval, query) };
+  }
+}
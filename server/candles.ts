@@ -0,0 +1,59 @@
+import type { Candle } from '@shared/schema';
+
+// Row as returned by Kraken's REST OHLC endpoint:
+// [time, open, high, low, close, vwap, volume, count]
+export type OHLCRow = [number, string, string, string, string, string, string, number];
+
+export function candleFromRow(pair: string, interval: number, row: OHLCRow): Candle {
+  const [time, open, high, low, close, vwap, volume, count] = row;
+  return { pair, interval, time, open, high, low, close, vwap, volume, count };
+}
+
+export function candleToRow(candle: Candle): OHLCRow {
+  return [
+    candle.time,
+    candle.open,
+    candle.high,
+    candle.low,
+    candle.close,
+    candle.vwap,
+    candle.volume,
+    candle.count,
+  ];
+}
+
+// Parse the interval out of a WebSocket channel name such as "ohlc-5"
+export function ohlcChannelInterval(channelName: string): number | null {
+  const match = /^ohlc-(\d+)$/.exec(channelName);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Convert a live WebSocket ohlc payload into a stored candle.
+ * The payload is [time, etime, open, high, low, close, vwap, volume, count]
+ * where etime is the end of the interval, so the candle start used by the
+ * REST endpoint is etime minus one interval.
+ */
+export function candleFromLiveUpdate(pair: string, interval: number, payload: unknown): Candle | null {
+  if (!Array.isArray(payload) || payload.length < 9) {
+    return null;
+  }
+
+  const endTime = Math.round(parseFloat(String(payload[1])));
+  if (isNaN(endTime)) {
+    return null;
+  }
+
+  return {
+    pair,
+    interval,
+    time: endTime - interval * 60,
+    open: String(payload[2]),
+    high: String(payload[3]),
+    low: String(payload[4]),
+    close: String(payload[5]),
+    vwap: String(payload[6]),
+    volume: String(payload[7]),
+    count: Number(payload[8]),
+  };
+}
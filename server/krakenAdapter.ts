@@ -0,0 +1,69 @@
+import type { BookSnapshotMessage, UpdateMessage } from '@shared/protocol';
+import { subscriptionKey, type ChannelSubscription } from './subscriptions';
+import { KrakenV1Adapter } from './krakenV1';
+import { KrakenV2Adapter } from './krakenV2';
+
+/**
+ * Kraken speaks two WebSocket APIs: v1 with array frames keyed by channel
+ * name and pair, and v2 with JSON objects and `method`/`params` requests.
+ * An adapter hides which one the upstream connection uses; both turn
+ * Kraken's messages into the same events, with market data already in the
+ * form of protocol messages for the browser.
+ */
+
+export type KrakenEvent =
+  // Market data for the subscribers of `key`, see subscriptionKey
+  | { type: 'data'; key: string; message: UpdateMessage | BookSnapshotMessage }
+  | { type: 'heartbeat' }
+  | { type: 'systemStatus'; status: string } // "online", "maintenance", ...
+  | { type: 'subscriptionError'; subscription: ChannelSubscription; error: string }
+  | { type: 'error'; error: string };
+
+export interface KrakenAdapter {
+  readonly url: string;
+  // Messages that (un)subscribe the given channels on the current connection.
+  // Subscriptions the connection can't take are passed to `refuse` instead.
+  subscriptionMessages(
+    event: 'subscribe' | 'unsubscribe',
+    subscriptions: ChannelSubscription[],
+    refuse: (subscription: ChannelSubscription, error: string) => void
+  ): unknown[];
+  // Translate a parsed message received from Kraken
+  parse(message: unknown): KrakenEvent[];
+  // A new connection starts without subscriptions or pending requests
+  reset(): void;
+}
+
+// Decimals Kraken formats the prices and volumes of a pair with
+export interface PairPrecision {
+  price: number;
+  volume: number;
+}
+
+export interface KrakenAdapterOptions {
+  // Known once the asset pairs were loaded, by wsname ("XBT/USD")
+  precision(pair: string): PairPrecision | undefined;
+}
+
+export const krakenApiVersions = ['v1', 'v2'] as const;
+export type KrakenApiVersion = typeof krakenApiVersions[number];
+
+export function dataEvent(message: UpdateMessage | BookSnapshotMessage): KrakenEvent {
+  const subscription: ChannelSubscription = { name: message.channel, pair: message.pair };
+  if (message.channel === 'ohlc') subscription.interval = message.interval;
+  if (message.channel === 'book') subscription.depth = message.depth;
+  return { type: 'data', key: subscriptionKey(subscription), message };
+}
+
+export function createKrakenAdapter(version: KrakenApiVersion, options: KrakenAdapterOptions): KrakenAdapter {
+  return version === 'v2' ? new KrakenV2Adapter(options) : new KrakenV1Adapter();
+}
+
+// KRAKEN_WS_VERSION selects the API, v1 unless set to "v2"
+export function krakenAdapterFromEnv(
+  options: KrakenAdapterOptions,
+  env: NodeJS.ProcessEnv = process.env
+): KrakenAdapter {
+  const version = env.KRAKEN_WS_VERSION === 'v2' ? 'v2' : 'v1';
+  return createKrakenAdapter(version, options);
+}
@@ -0,0 +1,201 @@
+import {
+  serverMessage,
+  type BookSnapshotMessage,
+  type ProtocolBookLevel,
+  type UpdateMessage,
+} from '@shared/protocol';
+import { candleFromLiveUpdate, ohlcChannelInterval } from './candles';
+import { channelName, type ChannelSubscription } from './subscriptions';
+import { dataEvent, type KrakenAdapter, type KrakenEvent } from './krakenAdapter';
+
+/**
+ * Adapter for Kraken's v1 WebSocket API, wss://ws.kraken.com.
+ * Data frames look like [channelID, payload, (payload,) channelName, pair],
+ * everything else is an object with an `event` field.
+ * https://docs.kraken.com/websockets/
+ */
+
+type DataMessage = UpdateMessage | BookSnapshotMessage;
+
+// Book level as Kraken sends it: [price, volume, timestamp, updateType?]
+type RawLevel = [string, string, string, string?];
+
+interface BookPayload {
+  as?: RawLevel[]; // snapshot
+  bs?: RawLevel[];
+  a?: RawLevel[];  // update
+  b?: RawLevel[];
+  c?: string;      // checksum
+}
+
+function bookChannelDepth(channelName: string): number | null {
+  const match = /^book-(\d+)$/.exec(channelName);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toLevels = (levels: RawLevel[] | undefined): ProtocolBookLevel[] =>
+  (levels ?? []).map(([price, volume]) => ({ price, volume }));
+
+// ticker payload fields are [today, last 24 hours] pairs, except c which is [price, lot volume]
+function tickerMessage(pair: string, payload: unknown): DataMessage | null {
+  if (!isObject(payload)) return null;
+  const fields = ['c', 'o', 'h', 'l', 'v'];
+  if (!fields.every(field => Array.isArray(payload[field]))) return null;
+
+  return serverMessage<UpdateMessage>({
+    type: 'update',
+    channel: 'ticker',
+    pair,
+    ticker: {
+      last: String(payload.c[0]),
+      open24h: String(payload.o[1]),
+      high24h: String(payload.h[1]),
+      low24h: String(payload.l[1]),
+      volume24h: String(payload.v[1]),
+    },
+  });
+}
+
+// trade payload: [[price, volume, time, side, orderType, misc], ...]
+function tradeMessage(pair: string, payload: unknown): DataMessage | null {
+  if (!Array.isArray(payload)) return null;
+
+  const trades = payload
+    .filter((entry): entry is string[] => Array.isArray(entry) && entry.length >= 4)
+    .map(([price, volume, time, side]) => ({
+      price,
+      volume,
+      time: parseFloat(time),
+      side: side === 'b' ? 'buy' as const : 'sell' as const,
+    }));
+
+  return serverMessage<UpdateMessage>({ type: 'update', channel: 'trade', pair, trades });
+}
+
+// A book frame holds a snapshot, or asks and bids updates that may come
+// in separate payloads with the checksum on the last one
+function bookMessage(pair: string, depth: number, payloads: unknown[]): DataMessage | null {
+  const books = payloads.filter((payload): payload is BookPayload => isObject(payload));
+  if (books.length === 0) return null;
+
+  if (books.some(book => book.as !== undefined || book.bs !== undefined)) {
+    return serverMessage<BookSnapshotMessage>({
+      type: 'snapshot',
+      channel: 'book',
+      pair,
+      depth,
+      asks: books.flatMap(book => toLevels(book.as)),
+      bids: books.flatMap(book => toLevels(book.bs)),
+    });
+  }
+
+  const checksum = books.find(book => book.c !== undefined)?.c;
+  return serverMessage<UpdateMessage>({
+    type: 'update',
+    channel: 'book',
+    pair,
+    depth,
+    asks: books.flatMap(book => toLevels(book.a)),
+    bids: books.flatMap(book => toLevels(book.b)),
+    ...(checksum !== undefined ? { checksum } : {}),
+  });
+}
+
+function fromKrakenFrame(frame: unknown[]): DataMessage | null {
+  if (frame.length < 4) return null;
+  const channelName = frame[frame.length - 2];
+  const pair = frame[frame.length - 1];
+  if (typeof channelName !== 'string' || typeof pair !== 'string') return null;
+
+  const payloads = frame.slice(1, -2);
+
+  const interval = ohlcChannelInterval(channelName);
+  if (interval !== null) {
+    const candle = candleFromLiveUpdate(pair, interval, payloads[0]);
+    if (!candle) return null;
+    const { pair: _pair, interval: _interval, ...values } = candle;
+    return serverMessage<UpdateMessage>({ type: 'update', channel: 'ohlc', pair, interval, candle: values });
+  }
+
+  if (channelName === 'ticker') return tickerMessage(pair, payloads[0]);
+  if (channelName === 'trade') return tradeMessage(pair, payloads[0]);
+
+  const depth = bookChannelDepth(channelName);
+  if (depth !== null) return bookMessage(pair, depth, payloads);
+
+  return null;
+}
+
+// Build the subscribe/unsubscribe payload for a subscription
+function toKrakenMessage(
+  event: 'subscribe' | 'unsubscribe',
+  subscription: ChannelSubscription
+) {
+  return {
+    event,
+    pair: [subscription.pair],
+    subscription: {
+      name: subscription.name,
+      ...(subscription.interval ? { interval: subscription.interval } : {}),
+      ...(subscription.depth ? { depth: subscription.depth } : {}),
+    },
+  };
+}
+
+// Subscriptions of one channel share a single message listing all their
+// pairs, e.g. the tickers of a whole watchlist
+function toKrakenMessages(
+  event: 'subscribe' | 'unsubscribe',
+  subscriptions: ChannelSubscription[]
+) {
+  const byChannel = new Map<string, ChannelSubscription[]>();
+  subscriptions.forEach(subscription => {
+    const name = channelName(subscription);
+    byChannel.set(name, [...(byChannel.get(name) ?? []), subscription]);
+  });
+
+  return Array.from(byChannel.values(), group => ({
+    ...toKrakenMessage(event, group[0]),
+    pair: group.map(subscription => subscription.pair),
+  }));
+}
+
+export class KrakenV1Adapter implements KrakenAdapter {
+  readonly url = 'wss://ws.kraken.com';
+
+  subscriptionMessages(event: 'subscribe' | 'unsubscribe', subscriptions: ChannelSubscription[]) {
+    return toKrakenMessages(event, subscriptions);
+  }
+
+  parse(message: any): KrakenEvent[] {
+    if (Array.isArray(message)) {
+      const data = fromKrakenFrame(message);
+      return data ? [dataEvent(data)] : [];
+    }
+
+    switch (message?.event) {
+      case 'heartbeat':
+        return [{ type: 'heartbeat' }];
+      case 'systemStatus':
+        return [{ type: 'systemStatus', status: String(message.status) }];
+      case 'subscriptionStatus':
+        if (message.status !== 'error' || !message.pair || !message.subscription) return [];
+        return [{
+          type: 'subscriptionError',
+          subscription: { ...message.subscription, pair: message.pair },
+          error: String(message.errorMessage ?? 'Subscription failed'),
+        }];
+      case 'error':
+        return [{ type: 'error', error: String(message.errorMessage ?? 'Kraken reported an error') }];
+      default:
+        return [];
+    }
+  }
+
+  reset() {
+    // Nothing is kept per connection
+  }
+}
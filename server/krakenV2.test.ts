@@ -0,0 +1,49 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChannelSubscription } from './subscriptions';
+import { KrakenV2Adapter } from './krakenV2';
+
+describe('KrakenV2Adapter', () => {
+  const book = (depth: number): ChannelSubscription => ({ name: 'book', pair: 'XBT/USD', depth });
+
+  function setup() {
+    const adapter = new KrakenV2Adapter({ precision: () => undefined });
+    const refused: { subscription: ChannelSubscription; error: string }[] = [];
+    const send = (event: 'subscribe' | 'unsubscribe', subscriptions: ChannelSubscription[]) =>
+      adapter.subscriptionMessages(event, subscriptions, (subscription, error) => refused.push({ subscription, error }));
+    return { adapter, refused, send };
+  }
+
+  test('refuses a second book depth for a pair', () => {
+    const { refused, send } = setup();
+
+    assert.equal(send('subscribe', [book(10)]).length, 1);
+    assert.deepEqual(send('subscribe', [book(25)]), []);
+    assert.deepEqual(refused, [
+      { subscription: book(25), error: 'Book of XBT/USD is already subscribed with depth 10' },
+    ]);
+  });
+
+  test('keeps the book when a refused depth is unsubscribed', () => {
+    const { adapter, send } = setup();
+    send('subscribe', [book(10), book(25)]);
+
+    assert.deepEqual(send('unsubscribe', [book(25)]), []);
+
+    const [event] = adapter.parse({
+      channel: 'book',
+      type: 'snapshot',
+      data: [{ symbol: 'BTC/USD', asks: [{ price: 50001, qty: 1 }], bids: [{ price: 50000, qty: 2 }] }],
+    });
+    assert.equal(event.type === 'data' && event.message.type === 'snapshot' && event.message.depth, 10);
+  });
+
+  test('frees the pair for another depth once its book is unsubscribed', () => {
+    const { refused, send } = setup();
+    send('subscribe', [book(10)]);
+    send('unsubscribe', [book(10)]);
+
+    assert.equal(send('subscribe', [book(25)]).length, 1);
+    assert.deepEqual(refused, []);
+  });
+});
@@ -0,0 +1,300 @@
+import {
+  serverMessage,
+  type BookSnapshotMessage,
+  type ProtocolBookLevel,
+  type UpdateMessage,
+} from '@shared/protocol';
+import { channelName, type ChannelSubscription } from './subscriptions';
+import {
+  dataEvent,
+  type KrakenAdapter,
+  type KrakenAdapterOptions,
+  type KrakenEvent,
+  type PairPrecision,
+} from './krakenAdapter';
+
+/**
+ * Adapter for Kraken's v2 WebSocket API, wss://ws.kraken.com/v2.
+ * Every message is an object: requests carry `method` and `params`,
+ * responses echo the `req_id`, and data arrives as
+ * { channel, type: "snapshot" | "update", data: [...] } with numbers
+ * instead of decimal strings.
+ * https://docs.kraken.com/api/docs/websocket-v2/
+ *
+ * Pairs keep their v1 wsname ("XBT/USD") everywhere else, v2 uses the
+ * common asset codes ("BTC/USD").
+ */
+
+const V2_ASSETS: Record<string, string> = { XBT: 'BTC', XDG: 'DOGE' };
+const V1_ASSETS: Record<string, string> = Object.fromEntries(
+  Object.entries(V2_ASSETS).map(([v1, v2]) => [v2, v1])
+);
+
+const toSymbol = (pair: string) =>
+  pair.split('/').map(asset => V2_ASSETS[asset] ?? asset).join('/');
+
+const fromSymbol = (symbol: string) =>
+  symbol.split('/').map(asset => V1_ASSETS[asset] ?? asset).join('/');
+
+// Requests remembered to attribute failed subscriptions to their channels
+const MAX_PENDING_REQUESTS = 100;
+
+// v2 sends JSON numbers, the protocol carries the decimal strings v1 sends
+function formatter(decimals: number | undefined) {
+  return (value: unknown): string => {
+    const number = Number(value);
+    if (decimals === undefined || !Number.isFinite(number)) return String(value);
+    return number.toFixed(decimals);
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const unixSeconds = (timestamp: unknown) => Date.parse(String(timestamp)) / 1000;
+
+export class KrakenV2Adapter implements KrakenAdapter {
+  readonly url = 'wss://ws.kraken.com/v2';
+
+  private reqid = 0;
+  private pending = new Map<number, ChannelSubscription[]>();
+  // Book messages don't say their depth, it is the one subscribed with.
+  // That makes one depth per pair the most a connection can carry.
+  private bookDepths = new Map<string, number>();
+
+  constructor(private options: KrakenAdapterOptions) {}
+
+  // One request per channel with the symbols of all its subscriptions
+  subscriptionMessages(
+    event: 'subscribe' | 'unsubscribe',
+    subscriptions: ChannelSubscription[],
+    refuse: (subscription: ChannelSubscription, error: string) => void
+  ) {
+    const byChannel = new Map<string, ChannelSubscription[]>();
+    subscriptions.forEach(subscription => {
+      if (subscription.name === 'book' && !this.claimBookDepth(event, subscription, refuse)) return;
+      const name = channelName(subscription);
+      byChannel.set(name, [...(byChannel.get(name) ?? []), subscription]);
+    });
+
+    return Array.from(byChannel.values(), group => {
+      const { name, interval, depth } = group[0];
+      const reqid = this.remember(group);
+      return {
+        method: event,
+        params: {
+          channel: name,
+          symbol: group.map(subscription => toSymbol(subscription.pair)),
+          ...(name === 'ohlc' ? { interval: interval ?? 1 } : {}),
+          ...(name === 'book' ? { depth: depth ?? 10 } : {}),
+        },
+        req_id: reqid,
+      };
+    });
+  }
+
+  parse(message: unknown): KrakenEvent[] {
+    if (!isObject(message)) return [];
+
+    if (typeof message.method === 'string') {
+      return this.parseResponse(message);
+    }
+
+    const data = Array.isArray(message.data) ? message.data.filter(isObject) : [];
+    switch (message.channel) {
+      case 'heartbeat':
+        return [{ type: 'heartbeat' }];
+      case 'status':
+        return data.length > 0 ? [{ type: 'systemStatus', status: String(data[0].system) }] : [];
+      case 'ohlc':
+        return this.ohlcMessages(message.type, data).map(dataEvent);
+      case 'ticker':
+        return data.map(entry => dataEvent(this.tickerMessage(entry)));
+      case 'trade':
+        return this.tradeMessages(data).map(dataEvent);
+      case 'book':
+        return data.map(entry => dataEvent(this.bookMessage(message.type, entry)));
+      default:
+        return [];
+    }
+  }
+
+  reset() {
+    this.pending.clear();
+    this.bookDepths.clear();
+  }
+
+  // Track the depth a pair's book is subscribed with. A second depth is
+  // refused, and unsubscribing one that was refused must not end the book
+  // of the depth in use.
+  private claimBookDepth(
+    event: 'subscribe' | 'unsubscribe',
+    subscription: ChannelSubscription,
+    refuse: (subscription: ChannelSubscription, error: string) => void
+  ): boolean {
+    const depth = subscription.depth ?? 10;
+    const current = this.bookDepths.get(subscription.pair);
+
+    if (event === 'unsubscribe') {
+      if (current !== depth) return false;
+      this.bookDepths.delete(subscription.pair);
+      return true;
+    }
+
+    if (current !== undefined && current !== depth) {
+      refuse(subscription, `Book of ${subscription.pair} is already subscribed with depth ${current}`);
+      return false;
+    }
+    this.bookDepths.set(subscription.pair, depth);
+    return true;
+  }
+
+  private remember(subscriptions: ChannelSubscription[]): number {
+    const reqid = ++this.reqid;
+    this.pending.set(reqid, subscriptions);
+    if (this.pending.size > MAX_PENDING_REQUESTS) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest !== undefined) this.pending.delete(oldest);
+    }
+    return reqid;
+  }
+
+  private precision(symbol: string): Partial<PairPrecision> {
+    return this.options.precision(fromSymbol(symbol)) ?? {};
+  }
+
+  // Answers to subscribe/unsubscribe, only failures are of interest
+  private parseResponse(message: Record<string, any>): KrakenEvent[] {
+    const reqid = typeof message.req_id === 'number' ? message.req_id : null;
+    const subscriptions = reqid !== null ? this.pending.get(reqid) : undefined;
+    if (reqid !== null) this.pending.delete(reqid);
+
+    if (message.success !== false) return [];
+
+    const error = String(message.error ?? 'Subscription failed');
+    if (message.method !== 'subscribe' || !subscriptions) {
+      return [{ type: 'error', error }];
+    }
+
+    // A request for several symbols fails for the one named in the response
+    const failed = typeof message.symbol === 'string'
+      ? subscriptions.filter(subscription => toSymbol(subscription.pair) === message.symbol)
+      : subscriptions;
+    failed.forEach(subscription => {
+      // A book Kraken refused leaves the pair free for another depth
+      if (subscription.name === 'book' && this.bookDepths.get(subscription.pair) === (subscription.depth ?? 10)) {
+        this.bookDepths.delete(subscription.pair);
+      }
+    });
+    return failed.map(subscription => ({ type: 'subscriptionError' as const, subscription, error }));
+  }
+
+  // The snapshot holds recent candles, only the forming one is passed on
+  private ohlcMessages(type: unknown, data: Record<string, any>[]): UpdateMessage[] {
+    const latest = new Map<string, Record<string, any>>();
+    data.forEach(entry => {
+      const key = `${entry.symbol}:${entry.interval}`;
+      const current = latest.get(key);
+      if (type !== 'snapshot' || !current || unixSeconds(entry.interval_begin) >= unixSeconds(current.interval_begin)) {
+        latest.set(key, entry);
+      }
+    });
+
+    return Array.from(latest.values(), entry => {
+      const { price, volume } = this.precision(entry.symbol);
+      const formatPrice = formatter(price);
+      return serverMessage<UpdateMessage>({
+        type: 'update',
+        channel: 'ohlc',
+        pair: fromSymbol(entry.symbol),
+        interval: Number(entry.interval),
+        candle: {
+          time: unixSeconds(entry.interval_begin),
+          open: formatPrice(entry.open),
+          high: formatPrice(entry.high),
+          low: formatPrice(entry.low),
+          close: formatPrice(entry.close),
+          vwap: formatPrice(entry.vwap),
+          volume: formatter(volume)(entry.volume),
+          count: Number(entry.trades ?? 0),
+        },
+      });
+    });
+  }
+
+  // v2 has the 24h change instead of the opening price
+  private tickerMessage(entry: Record<string, any>): UpdateMessage {
+    const { price, volume } = this.precision(entry.symbol);
+    const formatPrice = formatter(price);
+    const open24h = Number(entry.last) - Number(entry.change);
+    return serverMessage<UpdateMessage>({
+      type: 'update',
+      channel: 'ticker',
+      pair: fromSymbol(entry.symbol),
+      ticker: {
+        last: formatPrice(entry.last),
+        open24h: formatPrice(Number(open24h.toPrecision(12))),
+        high24h: formatPrice(entry.high),
+        low24h: formatPrice(entry.low),
+        volume24h: formatter(volume)(entry.volume),
+      },
+    });
+  }
+
+  // A trade message can mix symbols, the protocol has one pair per message
+  private tradeMessages(data: Record<string, any>[]): UpdateMessage[] {
+    const bySymbol = new Map<string, Record<string, any>[]>();
+    data.forEach(entry => {
+      bySymbol.set(entry.symbol, [...(bySymbol.get(entry.symbol) ?? []), entry]);
+    });
+
+    return Array.from(bySymbol, ([symbol, entries]) => {
+      const { price, volume } = this.precision(symbol);
+      return serverMessage<UpdateMessage>({
+        type: 'update',
+        channel: 'trade',
+        pair: fromSymbol(symbol),
+        trades: entries.map(entry => ({
+          price: formatter(price)(entry.price),
+          volume: formatter(volume)(entry.qty),
+          time: unixSeconds(entry.timestamp),
+          side: entry.side === 'buy' ? 'buy' as const : 'sell' as const,
+        })),
+      });
+    });
+  }
+
+  // The checksum is computed over the levels as v1 formats them, so it is
+  // only passed on when the pair's precision is known
+  private bookMessage(type: unknown, entry: Record<string, any>): UpdateMessage | BookSnapshotMessage {
+    const pair = fromSymbol(entry.symbol);
+    const depth = this.bookDepths.get(pair) ?? 10;
+    const precision = this.options.precision(pair);
+    const toLevels = (levels: unknown): ProtocolBookLevel[] =>
+      (Array.isArray(levels) ? levels.filter(isObject) : []).map(level => ({
+        price: formatter(precision?.price)(level.price),
+        volume: formatter(precision?.volume)(level.qty),
+      }));
+
+    if (type === 'snapshot') {
+      return serverMessage<BookSnapshotMessage>({
+        type: 'snapshot',
+        channel: 'book',
+        pair,
+        depth,
+        asks: toLevels(entry.asks),
+        bids: toLevels(entry.bids),
+      });
+    }
+
+    return serverMessage<UpdateMessage>({
+      type: 'update',
+      channel: 'book',
+      pair,
+      depth,
+      asks: toLevels(entry.asks),
+      bids: toLevels(entry.bids),
+      ...(precision && entry.checksum !== undefined ? { checksum: String(entry.checksum) } : {}),
+    });
+  }
+}
@@ -0,0 +1,211 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { AlertEvent, NotificationChannel } from '@shared/schema';
+import { MemStorage } from './storage';
+import { NotificationDispatcher, signPayload } from './notifications';
+
+// Local stand-in for webhook receivers. Answers requests with the queued
+// responses in turn, then with 200.
+interface StandInResponse {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+class StandInServer {
+  readonly requests: ReceivedRequest[] = [];
+  private responses: StandInResponse[] = [];
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      this.requests.push({ headers: req.headers, body, at: Date.now() });
+      const { status, headers } = this.responses.shift() ?? { status: 200 };
+      res.writeHead(status, headers);
+      res.end();
+    });
+  });
+
+  url = '';
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/hook`;
+  }
+
+  stop() {
+    return new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  reset(responses: StandInResponse[] = []) {
+    this.requests.length = 0;
+    this.responses = responses;
+  }
+}
+
+const event: AlertEvent = {
+  type: 'alert',
+  alert: {
+    id: 7,
+    userId: 1,
+    pair: 'XBT/USD',
+    condition: 'price_above',
+    threshold: 50000,
+    interval: 1,
+    lookback: 20,
+    note: 'Breakout',
+    active: false,
+    createdAt: 1700000000,
+    triggeredAt: 1700000600,
+  },
+  price: 50100,
+  message: 'XBT/USD rose above 50000',
+};
+
+describe('NotificationDispatcher', () => {
+  const receiver = new StandInServer();
+
+  before(() => receiver.start());
+  after(() => receiver.stop());
+
+  async function setup(type: NotificationChannel['type'], secret?: string) {
+    const storage = new MemStorage();
+    const channel = await storage.createNotificationChannel(1, { type, name: 'Test', target: receiver.url, secret });
+    const dispatcher = new NotificationDispatcher(storage, { baseDelayMs: 10, maxAttempts: 3, smtp: null });
+    return { storage, channel, dispatcher };
+  }
+
+  test('posts the event to webhooks signed with the channel secret', async () => {
+    receiver.reset();
+    const { dispatcher } = await setup('webhook', 'top-secret');
+
+    const [delivery] = await dispatcher.dispatch(event);
+
+    assert.equal(receiver.requests.length, 1);
+    const { headers, body } = receiver.requests[0];
+    const payload = JSON.parse(body);
+    assert.equal(payload.type, 'alert');
+    assert.equal(payload.alert.id, 7);
+    assert.equal(payload.price, 50100);
+    assert.equal(payload.message, event.message);
+    assert.ok(!isNaN(Date.parse(payload.sentAt)));
+
+    const timestamp = headers['x-alert-timestamp'] as string;
+    assert.ok(timestamp);
+    assert.equal(headers['x-alert-signature'], `sha256=${signPayload('top-secret', timestamp, body)}`);
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.alertId, 7);
+  });
+
+  test("only notifies the channels of the alert's owner", async () => {
+    receiver.reset();
+    const { storage, dispatcher } = await setup('webhook');
+    await storage.createNotificationChannel(2, { type: 'webhook', name: 'Other', target: receiver.url });
+
+    const deliveries = await dispatcher.dispatch(event);
+
+    assert.equal(receiver.requests.length, 1);
+    assert.deepEqual(deliveries.map(delivery => delivery.userId), [1]);
+    assert.deepEqual(await storage.getDeliveries(2, 10), []);
+  });
+
+  test('leaves webhooks without a secret unsigned', async () => {
+    receiver.reset();
+    const { dispatcher } = await setup('webhook');
+
+    await dispatcher.dispatch(event);
+
+    assert.equal(receiver.requests[0].headers['x-alert-signature'], undefined);
+  });
+
+  test('sends Slack a text message', async () => {
+    receiver.reset();
+    const { dispatcher } = await setup('slack');
+
+    await dispatcher.dispatch(event);
+
+    assert.deepEqual(JSON.parse(receiver.requests[0].body), {
+      text: '*Alert: Breakout*\nXBT/USD rose above 50000',
+    });
+  });
+
+  test('retries 429 and 5xx responses until delivered', async () => {
+    receiver.reset([{ status: 429 }, { status: 503 }]);
+    const { storage, channel, dispatcher } = await setup('webhook');
+    const updates: unknown[] = [];
+    const updateDelivery = storage.updateDelivery.bind(storage);
+    storage.updateDelivery = (id, changes) => {
+      updates.push({ ...changes, completedAt: changes.completedAt ? 'set' : changes.completedAt });
+      return updateDelivery(id, changes);
+    };
+
+    const delivery = await dispatcher.sendTest(channel);
+
+    // Every failed attempt is logged before the retry
+    assert.deepEqual(updates, [
+      { attempts: 1, error: 'Responded with 429', completedAt: undefined },
+      { attempts: 2, error: 'Responded with 503', completedAt: undefined },
+      { status: 'delivered', attempts: 3, error: null, completedAt: 'set' },
+    ]);
+    assert.equal(receiver.requests.length, 3);
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.error, null);
+    assert.equal(delivery.alertId, null);
+    assert.deepEqual(await storage.getDeliveries(1, 10), [delivery]);
+  });
+
+  test('waits as long as Retry-After asks', async () => {
+    receiver.reset([{ status: 429, headers: { 'Retry-After': '1' } }]);
+    const { channel, dispatcher } = await setup('webhook');
+
+    const delivery = await dispatcher.sendTest(channel);
+
+    assert.equal(delivery.status, 'delivered');
+    const [first, second] = receiver.requests;
+    assert.ok(second.at - first.at >= 900, `retried after ${second.at - first.at}ms`);
+  });
+
+  test('does not retry other 4xx responses', async () => {
+    receiver.reset([{ status: 404 }]);
+    const { channel, dispatcher } = await setup('webhook');
+
+    const delivery = await dispatcher.sendTest(channel);
+
+    assert.equal(receiver.requests.length, 1);
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.error, 'Responded with 404');
+    assert.notEqual(delivery.completedAt, null);
+  });
+
+  test('gives up after the last attempt', async () => {
+    receiver.reset([{ status: 500 }, { status: 502 }, { status: 503 }]);
+    const { channel, dispatcher } = await setup('slack');
+
+    const delivery = await dispatcher.sendTest(channel);
+
+    assert.equal(receiver.requests.length, 3);
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.error, 'Responded with 503');
+  });
+
+  test('fails email deliveries without SMTP settings', async () => {
+    receiver.reset();
+    const { channel, dispatcher } = await setup('email');
+
+    const delivery = await dispatcher.sendTest(channel);
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 1);
+    assert.match(delivery.error ?? '', /SMTP is not configured/);
+  });
+});
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import type {
+  Alert,
+  AlertEvent,
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationDelivery,
+} from '@shared/schema';
+import type { IStorage } from './storage';
+import { SmtpError, sendMail, smtpConfigFromEnv, type SmtpConfig } from './smtp';
+import { DEFAULT_RETRY_POLICY, RetryableError, retryableResponse, withRetry, type RetryPolicy } from './retry';
+
+/**
+ * Pushes triggered alerts to the configured notification channels.
+ *
+ * Every channel gets its own delivery record, which is updated after each
+ * attempt. Network errors, 429 and temporary 5xx responses are retried with
+ * the same policy as the calls to Kraken, see retry.ts; other failures
+ * are final.
+ */
+
+// A delivery that failed for good
+export class DeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+export interface DispatcherOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number; // doubled after every failed attempt
+  maxDelayMs?: number;  // also caps Retry-After
+  timeoutMs?: number; // per attempt
+  smtp?: SmtpConfig | null;
+}
+
+type ChannelSender = (channel: NotificationChannel, event: AlertEvent) => Promise<void>;
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_TIMEOUT = 10000;
+
+// Receivers verify the signature over "<timestamp>.<body>" with their copy of
+// the secret, and can reject old timestamps to prevent replays
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Channels as returned by the API, the secret is write-only
+export function publicChannel(channel: NotificationChannel) {
+  const { secret, ...rest } = channel;
+  return { ...rest, hasSecret: secret !== null && secret !== '' };
+}
+
+function alertTitle(event: AlertEvent): string {
+  return event.alert.note ? `Alert: ${event.alert.note}` : `Price alert on ${event.alert.pair}`;
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string>, timeoutMs: number) {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new RetryableError(`Request failed: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw retryableResponse(response) ?? new DeliveryError(`Responded with ${response.status}`);
+  }
+}
+
+export class NotificationDispatcher {
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
+  private smtp: SmtpConfig | null;
+  private senders: Record<NotificationChannelType, ChannelSender>;
+
+  constructor(private storage: IStorage, options: DispatcherOptions = {}) {
+    this.retryPolicy = {
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+    this.smtp = options.smtp !== undefined ? options.smtp : smtpConfigFromEnv();
+    this.senders = {
+      webhook: (channel, event) => this.sendWebhook(channel, event),
+      slack: (channel, event) => this.sendSlack(channel, event),
+      email: (channel, event) => this.sendEmail(channel, event),
+    };
+  }
+
+  // Deliver an event to every active channel of the alert's owner, resolving
+  // once all deliveries finished
+  async dispatch(event: AlertEvent): Promise<NotificationDelivery[]> {
+    const channels = (await this.storage.getNotificationChannels(event.alert.userId)).filter(channel => channel.active);
+    return Promise.all(channels.map(channel => this.deliver(channel, event, event.alert.id)));
+  }
+
+  // Send a sample event to one channel so its configuration can be checked
+  sendTest(channel: NotificationChannel): Promise<NotificationDelivery> {
+    const alert: Alert = {
+      id: 0,
+      userId: channel.userId,
+      pair: 'XBT/USD',
+      condition: 'price_above',
+      threshold: 0,
+      interval: 1,
+      lookback: 20,
+      note: 'Test notification',
+      active: false,
+      createdAt: Math.floor(Date.now() / 1000),
+      triggeredAt: Math.floor(Date.now() / 1000),
+    };
+    const event: AlertEvent = {
+      type: 'alert',
+      alert,
+      price: 0,
+      message: `Test notification for channel "${channel.name}"`,
+    };
+    return this.deliver(channel, event, null);
+  }
+
+  private async deliver(channel: NotificationChannel, event: AlertEvent, alertId: number | null): Promise<NotificationDelivery> {
+    const delivery = await this.storage.createDelivery({ userId: channel.userId, channelId: channel.id, alertId });
+    const send = this.senders[channel.type];
+
+    let attempts = 0;
+    try {
+      await withRetry(
+        attempt => {
+          attempts = attempt;
+          return send(channel, event);
+        },
+        this.retryPolicy,
+        async (error, attempt) => {
+          await this.storage.updateDelivery(delivery.id, { attempts: attempt, error: error.message });
+        }
+      );
+    } catch (error) {
+      const failed = await this.storage.updateDelivery(delivery.id, {
+        status: 'failed',
+        attempts,
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: Math.floor(Date.now() / 1000),
+      });
+      return failed ?? delivery;
+    }
+
+    const delivered = await this.storage.updateDelivery(delivery.id, {
+      status: 'delivered',
+      attempts,
+      error: null,
+      completedAt: Math.floor(Date.now() / 1000),
+    });
+    return delivered ?? delivery;
+  }
+
+  private async sendWebhook(channel: NotificationChannel, event: AlertEvent) {
+    const body = JSON.stringify({ ...event, sentAt: new Date().toISOString() });
+    const headers: Record<string, string> = {};
+    if (channel.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      headers['X-Alert-Timestamp'] = timestamp;
+      headers['X-Alert-Signature'] = `sha256=${signPayload(channel.secret, timestamp, body)}`;
+    }
+    await postJson(channel.target, body, headers, this.timeoutMs);
+  }
+
+  // Slack incoming webhooks and services accepting the same payload, e.g. Mattermost
+  private async sendSlack(channel: NotificationChannel, event: AlertEvent) {
+    const body = JSON.stringify({
+      text: `*${alertTitle(event)}*\n${event.message}`,
+    });
+    await postJson(channel.target, body, {}, this.timeoutMs);
+  }
+
+  private async sendEmail(channel: NotificationChannel, event: AlertEvent) {
+    if (!this.smtp) {
+      throw new DeliveryError('SMTP is not configured, set SMTP_HOST and SMTP_FROM');
+    }
+
+    const triggeredAt = event.alert.triggeredAt ?? Math.floor(Date.now() / 1000);
+    try {
+      await sendMail(this.smtp, {
+        to: channel.target,
+        subject: alertTitle(event),
+        text: [
+          event.message,
+          '',
+          `Pair: ${event.alert.pair}`,
+          `Price: ${event.price}`,
+          `Time: ${new Date(triggeredAt * 1000).toUTCString()}`,
+        ].join('\n'),
+      });
+    } catch (error) {
+      const message = (error as Error).message;
+      throw error instanceof SmtpError && error.permanent ? new DeliveryError(message) : new RetryableError(message);
+    }
+  }
+}
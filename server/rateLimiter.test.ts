@@ -0,0 +1,118 @@
+import { test, describe, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBucketLimiter, RateLimitError, type RateLimiterOptions } from './rateLimiter';
+
+describe('TokenBucketLimiter', () => {
+  // The limiter reads the clock, the queue drains on timers: both move
+  // together, a second at a time so that every drain gets to run
+  let time = 0;
+  const clock = () => time;
+  async function advance(ms: number) {
+    for (let step = 0; step < ms; step += 1000) {
+      const elapsed = Math.min(1000, ms - step);
+      time += elapsed;
+      mock.timers.tick(elapsed);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  function limiter(options: RateLimiterOptions = {}) {
+    return new TokenBucketLimiter({ capacity: 2, refillPerSecond: 1, now: clock, ...options });
+  }
+
+  beforeEach(() => {
+    time = 1000000;
+    mock.timers.enable({ apis: ['setTimeout'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  test('hands tokens back at the refill rate, up to the capacity', async () => {
+    const bucket = limiter();
+
+    await bucket.acquire('ohlc');
+    await bucket.acquire('ohlc');
+    assert.equal(bucket.metrics().tokens, 0);
+
+    await advance(500);
+    assert.equal(bucket.metrics().tokens, 0.5);
+    assert.equal(bucket.retryAfterMs(), 500);
+
+    await advance(10000);
+    assert.equal(bucket.metrics().tokens, 2);
+  });
+
+  test('lets queued requests go by priority once tokens come back', async () => {
+    const bucket = limiter({ capacity: 1 });
+    const order: string[] = [];
+
+    await bucket.acquire('assetpairs');
+    const waiting = (['assetpairs', 'ohlc', 'ticker'] as const).map(priority =>
+      bucket.acquire(priority).then(() => order.push(priority))
+    );
+    assert.deepEqual(bucket.metrics().queueDepthByPriority, { ticker: 1, trades: 0, ohlc: 1, assetpairs: 1 });
+
+    await advance(1000);
+    assert.deepEqual(order, ['ticker']);
+
+    await advance(2000);
+    await Promise.all(waiting);
+    assert.deepEqual(order, ['ticker', 'ohlc', 'assetpairs']);
+    assert.deepEqual(bucket.metrics().wait, { samples: 4, averageMs: 1500, p95Ms: 3000, maxMs: 3000 });
+  });
+
+  test('refuses requests that would wait longer than allowed with 429', async () => {
+    const bucket = limiter({ capacity: 1, maxWaitMs: 1500 });
+
+    await bucket.acquire('ohlc');
+    const queued = bucket.acquire('ohlc');
+    const refused = await bucket.acquire('ohlc').catch(error => error);
+
+    assert.ok(refused instanceof RateLimitError);
+    assert.equal(refused.status, 429);
+    assert.equal(refused.retryAfterMs, 2000);
+    assert.equal(refused.retryAfterSeconds, 2);
+
+    // A request of a higher priority only waits behind its own kind
+    const ticker = bucket.acquire('ticker');
+    assert.deepEqual(bucket.metrics().rejected, { rateLimited: 1, saturated: 0 });
+
+    await advance(2000);
+    await Promise.all([queued, ticker]);
+  });
+
+  test('refuses requests with 503 once the queue is full', async () => {
+    const bucket = limiter({ capacity: 1, maxQueue: 1 });
+
+    await bucket.acquire('ticker');
+    const queued = bucket.acquire('ticker');
+    const refused = await bucket.acquire('ticker').catch(error => error);
+
+    assert.ok(refused instanceof RateLimitError);
+    assert.equal(refused.status, 503);
+    assert.equal(refused.retryAfterMs, 2000);
+    assert.deepEqual(bucket.metrics().rejected, { rateLimited: 0, saturated: 1 });
+
+    await advance(1000);
+    await queued;
+  });
+
+  test('starts over from an empty bucket when Kraken refused a request', async () => {
+    const bucket = limiter();
+
+    bucket.penalize();
+
+    assert.equal(bucket.metrics().tokens, 0);
+    assert.equal(bucket.metrics().penalties, 1);
+    assert.equal(bucket.retryAfterMs(), 1000);
+  });
+});
+
+describe('RateLimitError', () => {
+  test('rounds Retry-After up to whole seconds, at least one', () => {
+    assert.equal(new RateLimitError(429, 1001, '').retryAfterSeconds, 2);
+    assert.equal(new RateLimitError(503, 0, '').retryAfterSeconds, 1);
+  });
+});
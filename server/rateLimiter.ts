@@ -0,0 +1,221 @@
+/**
+ * Token bucket limiting the calls made to Kraken's public REST API.
+ *
+ * Kraken keeps a call counter per IP that every request increments and that
+ * decays over time; requests made while it is at its maximum fail with
+ * "EAPI:Rate limit exceeded". The bucket mirrors that counter: a request
+ * takes a token, tokens come back at the decay rate.
+ *
+ * Requests without a token wait in a queue ordered by priority, so live
+ * prices go out before history and reference data. When the queue is full,
+ * or the wait would be too long, they are rejected right away and the route
+ * tells its client when to retry instead of holding the response open.
+ */
+
+// Highest priority first
+export const requestPriorities = ['ticker', 'trades', 'ohlc', 'assetpairs'] as const;
+export type RequestPriority = typeof requestPriorities[number];
+
+export interface RateLimiterOptions {
+  capacity?: number;         // maximum of Kraken's call counter
+  refillPerSecond?: number;  // how fast the counter decays
+  maxQueue?: number;         // waiting requests before new ones are refused
+  maxWaitMs?: number;        // longest expected wait a request is queued for
+  now?: () => number;        // clock, replaced by the tests
+}
+
+// The queue is full (503) or the wait would be too long (429)
+export class RateLimitError extends Error {
+  constructor(readonly status: 429 | 503, readonly retryAfterMs: number, message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  // Value of the Retry-After header, in whole seconds and at least one
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(this.retryAfterMs / 1000));
+  }
+}
+
+export interface RateLimiterMetrics {
+  tokens: number;
+  capacity: number;
+  refillPerSecond: number;
+  queueDepth: number;
+  queueDepthByPriority: Record<RequestPriority, number>;
+  peakQueueDepth: number;
+  granted: number;
+  rejected: { rateLimited: number; saturated: number };
+  penalties: number;
+  wait: { samples: number; averageMs: number; p95Ms: number; maxMs: number };
+}
+
+interface Waiter {
+  priority: number;
+  enqueuedAt: number;
+  resolve: () => void;
+}
+
+const DEFAULT_CAPACITY = 15;
+const DEFAULT_REFILL_PER_SECOND = 1;
+const DEFAULT_MAX_QUEUE = 50;
+const DEFAULT_MAX_WAIT = 10000;
+
+// Wait times kept for the metrics
+const WAIT_SAMPLES = 500;
+
+export class TokenBucketLimiter {
+  private capacity: number;
+  private refillPerSecond: number;
+  private maxQueue: number;
+  private maxWaitMs: number;
+  private now: () => number;
+
+  private tokens: number;
+  private refilledAt: number;
+  private queue: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  private granted = 0;
+  private rejectedRateLimited = 0;
+  private rejectedSaturated = 0;
+  private penalties = 0;
+  private peakQueueDepth = 0;
+  private waits: number[] = [];
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+    this.refillPerSecond = options.refillPerSecond ?? DEFAULT_REFILL_PER_SECOND;
+    this.maxQueue = options.maxQueue ?? DEFAULT_MAX_QUEUE;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT;
+    this.now = options.now ?? Date.now;
+    this.tokens = this.capacity;
+    this.refilledAt = this.now();
+  }
+
+  // Resolves once the request may be sent. Rejects with a RateLimitError
+  // right away when it would have to wait too long.
+  acquire(priority: RequestPriority): Promise<void> {
+    this.refill();
+    const rank = requestPriorities.indexOf(priority);
+
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.grant(0);
+      return Promise.resolve();
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      this.rejectedSaturated++;
+      return Promise.reject(new RateLimitError(
+        503,
+        this.retryAfterMs(),
+        'Too many requests are waiting for Kraken, try again later'
+      ));
+    }
+
+    // Requests of the same or a higher priority go first
+    const ahead = this.queue.filter(waiter => waiter.priority <= rank).length;
+    const expectedWait = this.waitForTokens(ahead + 1);
+    if (expectedWait > this.maxWaitMs) {
+      this.rejectedRateLimited++;
+      return Promise.reject(new RateLimitError(
+        429,
+        expectedWait,
+        'Kraken rate limit reached, try again later'
+      ));
+    }
+
+    return new Promise(resolve => {
+      const waiter: Waiter = { priority: rank, enqueuedAt: this.now(), resolve };
+      const index = this.queue.findIndex(queued => queued.priority > rank);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+      this.peakQueueDepth = Math.max(this.peakQueueDepth, this.queue.length);
+      this.schedule();
+    });
+  }
+
+  // Kraken refused a request, so its counter is fuller than ours: start
+  // over from an empty bucket
+  penalize() {
+    this.refill();
+    this.tokens = 0;
+    this.penalties++;
+  }
+
+  // Milliseconds until a request made now would be sent
+  retryAfterMs(): number {
+    this.refill();
+    return this.waitForTokens(this.queue.length + 1);
+  }
+
+  metrics(): RateLimiterMetrics {
+    this.refill();
+    const queueDepthByPriority = Object.fromEntries(
+      requestPriorities.map((priority, rank) => [
+        priority,
+        this.queue.filter(waiter => waiter.priority === rank).length,
+      ])
+    ) as Record<RequestPriority, number>;
+
+    const sorted = [...this.waits].sort((a, b) => a - b);
+    const total = sorted.reduce((sum, wait) => sum + wait, 0);
+
+    return {
+      tokens: Math.round(this.tokens * 100) / 100,
+      capacity: this.capacity,
+      refillPerSecond: this.refillPerSecond,
+      queueDepth: this.queue.length,
+      queueDepthByPriority,
+      peakQueueDepth: this.peakQueueDepth,
+      granted: this.granted,
+      rejected: { rateLimited: this.rejectedRateLimited, saturated: this.rejectedSaturated },
+      penalties: this.penalties,
+      wait: {
+        samples: sorted.length,
+        averageMs: sorted.length > 0 ? Math.round(total / sorted.length) : 0,
+        p95Ms: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+        maxMs: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+      },
+    };
+  }
+
+  private refill() {
+    const now = this.now();
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.refilledAt = now;
+  }
+
+  // Milliseconds until the bucket has handed out `count` more tokens
+  private waitForTokens(count: number): number {
+    const missing = Math.max(0, count - this.tokens);
+    return Math.ceil((missing / this.refillPerSecond) * 1000);
+  }
+
+  private grant(waitMs: number) {
+    this.granted++;
+    this.waits.push(waitMs);
+    if (this.waits.length > WAIT_SAMPLES) this.waits.shift();
+  }
+
+  private schedule() {
+    if (this.timer !== null || this.queue.length === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, this.waitForTokens(1));
+  }
+
+  private drain() {
+    this.refill();
+    const now = this.now();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      const waiter = this.queue.shift()!;
+      this.tokens -= 1;
+      this.grant(now - waiter.enqueuedAt);
+      waiter.resolve();
+    }
+    this.schedule();
+  }
+}
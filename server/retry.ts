@@ -0,0 +1,85 @@
+/**
+ * Retry policy shared by the calls to Kraken and the notification deliveries.
+ *
+ * An operation signals a failure worth another attempt by throwing a
+ * RetryableError; anything else it throws is final. Retries wait with
+ * exponential backoff, or as long as the server asked for with Retry-After.
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number; // doubled after every failed attempt
+  maxDelayMs: number;  // also caps Retry-After
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+// For calls a client is waiting on: one quick retry, then the error goes
+// back to the client instead of holding its response open
+export const FAIL_FAST_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 2000,
+};
+
+export class RetryableError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null, // HTTP status, null for network errors
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+// Rate limited, or a server or gateway that is temporarily unavailable.
+// Other 5xx responses such as 501 won't change by asking again.
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
+}
+
+// Retry-After holds either seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// The error to retry a response with, null when its status is final
+export function retryableResponse(
+  response: { status: number; headers: { get(name: string): string | null } },
+  message: string = `Responded with ${response.status}`
+): RetryableError | null {
+  if (!isRetryableStatus(response.status)) return null;
+  return new RetryableError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+export function retryDelay(error: RetryableError, attempt: number, policy: RetryPolicy): number {
+  const backoff = Math.pow(2, attempt - 1) * policy.baseDelayMs;
+  return Math.min(error.retryAfterMs ?? backoff, policy.maxDelayMs);
+}
+
+// Run an operation until it succeeds, fails for good or runs out of
+// attempts. The last error is thrown.
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (error: RetryableError, attempt: number) => void | Promise<void>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof RetryableError) || attempt >= policy.maxAttempts) throw error;
+      await onRetry?.(error, attempt);
+      await new Promise(resolve => setTimeout(resolve, retryDelay(error, attempt, policy)));
+    }
+  }
+}
@@ -1,10 +1,71 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, candleStore } from "./storage";
 import { WebSocketServer, WebSocket } from 'ws';
 import fetch from 'node-fetch';
+import { fromZodError } from 'zod-validation-error';
+import {
+  type Candle,
+  insertAlertSchema,
+  updateAlertSchema,
+  insertNotificationChannelSchema,
+  updateNotificationChannelSchema,
+  preferencesSchema,
+} from '@shared/schema';
+import {
+  PROTOCOL_VERSION,
+  clientMessageSchema,
+  serverMessage,
+  type ProtocolCandle,
+  type ServerMessage,
+} from '@shared/protocol';
+import { AlertEngine } from './alerts';
+import { NotificationDispatcher, publicChannel } from './notifications';
+import { setupAuth, requireAuth, sessionUserId } from './auth';
+import { TtlCache, setCacheHeaders, type CachePolicy } from './cache';
+import { TokenBucketLimiter, RateLimitError, type RequestPriority } from './rateLimiter';
+import { FAIL_FAST_RETRY_POLICY, RetryableError, retryableResponse, withRetry } from './retry';
+import { UpstreamSupervisor } from './upstream';
+import { krakenAdapterFromEnv, type PairPrecision } from './krakenAdapter';
+import {
+  SubscriptionRegistry,
+  needsSnapshot,
+  subscriptionKey,
+  type ChannelSubscription,
+} from './subscriptions';
+import { candleToRow } from './candles';
+import { CandleHistory, type OHLCResponse } from './candleHistory';
+
+// Kraken answered with an error status or error list
+class UpstreamError extends Error {
+  constructor(readonly status: number, readonly errors: string[]) {
+    super(errors.join(', '));
+    this.name = 'UpstreamError';
+  }
+}
+
+// The fields of an AssetPairs entry the live feed relies on
+interface AssetPairInfo {
+  altname?: string;
+  wsname?: string;
+  pair_decimals?: number;
+  lot_decimals?: number;
+}
+
+// How long Kraken responses are reused. Asset pairs rarely change and
+// tickers move constantly. For OHLC this covers the sync of the newest
+// candles only, closed candles stay in the candle store for good.
+const cachePolicies = {
+  assetPairs: { ttlMs: 6 * 60 * 60 * 1000, staleMs: 24 * 60 * 60 * 1000 },
+  ticker: { ttlMs: 5000, staleMs: 30000 },
+  trades: { ttlMs: 2000, staleMs: 0 },
+  ohlc: { ttlMs: 10000, staleMs: 60000, minRefreshMs: 5000 },
+} satisfies Record<string, CachePolicy>;
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and the /api/auth routes
+  setupAuth(app);
+  
   // Create HTTP server
   const httpServer = createServer(app);
   
@@ -15,82 +76,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
     clientTracking: true
   });
 
-  // Rate limiting and retry logic for Kraken API
-  const requestTimestamps: { [endpoint: string]: number[] } = {};
-  const MAX_REQUESTS_PER_MINUTE = 15; // Kraken API limit is about 15-20 per minute
+  // Calls to Kraken's public REST API, queued by priority when the rate limit is reached
+  const krakenLimiter = new TokenBucketLimiter();
   
-  // Helper for rate limiting with exponential backoff
-  function isRateLimited(endpoint: string): [boolean, number] {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
+  // Kraken's answer when its call counter is exceeded
+  const RATE_LIMIT_ERROR = 'EAPI:Rate limit exceeded';
+  
+  // Retry network errors, 429 and temporary 5xx responses once, see retry.ts. Waiting
+  // for the rate limit happens in the limiter queue, which fails fast when it is full.
+  // A client is waiting on every call, so neither may take long.
+  async function fetchWithRetry(url: string, priority: RequestPriority) {
+    try {
+      return await withRetry(async () => {
+        await krakenLimiter.acquire(priority);
+        
+        let response;
+        try {
+          response = await fetch(url);
+        } catch (error) {
+          // console.error(`Error fetching ${url}:`, error);
+          throw new RetryableError(`Request failed: ${(error as Error).message}`);
+        }
+        
+        const retry = retryableResponse(response);
+        if (retry) {
+          // Kraken counts more calls than we did, queue up again behind a drained bucket
+          if (response.status === 429) krakenLimiter.penalize();
+          throw retry;
+        }
+        return response;
+      }, FAIL_FAST_RETRY_POLICY);
+    } catch (error) {
+      if (error instanceof RetryableError && error.status === 429) {
+        throw new RateLimitError(429, krakenLimiter.retryAfterMs(), 'Kraken rate limit reached, try again later');
+      }
+      if (error instanceof RetryableError && error.status !== null) {
+        throw new UpstreamError(error.status, [`Kraken responded with ${error.status}`]);
+      }
+      throw error;
+    }
+  }
+  
+  // Responses of the public REST endpoints, shared by all users
+  const krakenCache = new TtlCache();
+  
+  // Fetch a public Kraken endpoint. HTTP and API errors are thrown so that
+  // they never end up in the cache.
+  async function fetchKraken<T = any>(url: string, label: string, priority: RequestPriority): Promise<T> {
+    const response = await fetchWithRetry(url, priority);
     
-    // Initialize or clean up old timestamps
-    if (!requestTimestamps[endpoint]) {
-      requestTimestamps[endpoint] = [];
+    if (!response.ok) {
+      // console.error(`Kraken API error: ${response.status}`);
+      throw new UpstreamError(response.status, [`Error fetching ${label}: ${response.status}`]);
     }
     
-    // Remove timestamps older than 1 minute
-    requestTimestamps[endpoint] = requestTimestamps[endpoint].filter(
-      time => time > oneMinuteAgo
-    );
+    const data: any = await response.json();
     
-    // Check if we're over the limit
-    if (requestTimestamps[endpoint].length >= MAX_REQUESTS_PER_MINUTE) {
-      // Calculate backoff time based on how many requests over the limit
-      const overLimit = requestTimestamps[endpoint].length - MAX_REQUESTS_PER_MINUTE + 1;
-      const backoffMs = Math.min(30000, Math.pow(2, overLimit) * 1000); // Max 30 second backoff
-      
-      return [true, backoffMs];
+    if (data.error && Array.isArray(data.error) && data.error.length > 0) {
+      if (data.error.includes(RATE_LIMIT_ERROR)) {
+        krakenLimiter.penalize();
+        throw new RateLimitError(429, krakenLimiter.retryAfterMs(), 'Kraken rate limit reached, try again later');
+      }
+      // console.error('Kraken API returned error:', data.error);
+      throw new UpstreamError(400, data.error);
     }
     
-    // Not rate limited, add current timestamp
-    requestTimestamps[endpoint].push(now);
-    return [false, 0];
+    return data as T;
   }
   
-  // Retry logic with exponential backoff
-  async function fetchWithRetry(url: string, maxRetries = 3) {
-    let retries = 0;
-    let lastError;
-    
-    while (retries < maxRetries) {
-      try {
-        // Check rate limiting
-        const [limited, backoffMs] = isRateLimited('kraken');
-        if (limited) {
-          // console.log(`Rate limited, backing off for ${backoffMs}ms`);
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
-        }
-        
-        const response = await fetch(url);
-        
-        // If too many requests, add exponential backoff
-        if (response.status === 429) {
-          const backoffMs = Math.pow(2, retries) * 1000;
-          // console.log(`429 Too Many Requests, retrying in ${backoffMs}ms`);
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
-          retries++;
-          continue;
+  // Answer a proxy request that failed, keeping Kraken's status and errors
+  function sendProxyError(res: Response, error: unknown, message: string) {
+    if (error instanceof RateLimitError) {
+      res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+      return res.status(error.status).json({ error: [error.message] });
+    }
+    if (error instanceof UpstreamError) {
+      return res.status(error.status).json({ error: error.errors });
+    }
+    res.status(500).json({ error: [message] });
+  }
+  
+  // Kraken's WebSocket API names pairs by wsname ("XBT/USD") while the
+  // REST API accepts altnames ("XBTUSD") and pair ids ("XXBTZUSD");
+  // candles are stored by pair id
+  const pairIdsByName = new Map<string, string>();
+  const pairPrecisions = new Map<string, PairPrecision>();
+  
+  function rememberPairIds(result: Record<string, AssetPairInfo>) {
+    Object.entries(result).forEach(([id, info]) => {
+      pairIdsByName.set(id, id);
+      if (info.altname) pairIdsByName.set(info.altname, id);
+      if (info.wsname) {
+        pairIdsByName.set(info.wsname, id);
+        if (info.pair_decimals !== undefined && info.lot_decimals !== undefined) {
+          pairPrecisions.set(info.wsname, { price: info.pair_decimals, volume: info.lot_decimals });
         }
-        
-        return response;
-      } catch (error) {
-        lastError = error;
-        const backoffMs = Math.pow(2, retries) * 1000;
-        // console.error(`Error fetching ${url}, retrying in ${backoffMs}ms:`, error);
-        await new Promise(resolve => setTimeout(resolve, backoffMs));
-        retries++;
       }
+    });
+  }
+  
+  function getAssetPairs() {
+    return krakenCache.get('assetpairs', cachePolicies.assetPairs, async () => {
+      const data = await fetchKraken<{ result?: Record<string, AssetPairInfo> }>(
+        'https://api.kraken.com/0/public/AssetPairs',
+        'asset pairs',
+        'assetpairs'
+      );
+      rememberPairIds(data.result ?? {});
+      return data;
+    });
+  }
+  
+  function loadPairIds(): Promise<void> {
+    return getAssetPairs().then(
+      () => undefined,
+      () => {
+        // Another attempt is made on the next live frame
+      }
+    );
+  }
+  
+  // Write a live candle into the candle store so history and live data never diverge
+  function storeLiveCandle(pair: string, interval: number, candle: ProtocolCandle) {
+    const pairId = pairIdsByName.get(pair);
+    if (!pairId) {
+      // The next REST sync backfills anything missed while pairs load
+      loadPairIds();
+      return;
     }
     
-    throw lastError || new Error(`Failed to fetch ${url} after ${maxRetries} retries`);
+    candleStore.upsertCandles([{ pair: pairId, interval, ...candle }]).catch(() => {
+      // console.error('Error storing live candle:', error);
+    });
+  }
+  
+  const candleHistory = new CandleHistory(candleStore, {
+    fetchOHLC(pair, interval, since) {
+      const params = new URLSearchParams();
+      params.append('pair', pair);
+      params.append('interval', interval.toString());
+      if (since !== undefined) params.append('since', since.toString());
+      
+      return fetchKraken<OHLCResponse>(
+        `https://api.kraken.com/0/public/OHLC?${params.toString()}`,
+        'OHLC data',
+        'ohlc'
+      );
+    },
+    async lookupPairId(pair) {
+      await loadPairIds();
+      return pairIdsByName.get(pair);
+    },
+  });
+  
+  // Tell callers which parts of the served candles are missing for good,
+  // as "<from>-<to>" pairs of the candle times around each hole
+  function setHoleHeader(res: Response, pairId: string, interval: number, candles: Candle[]) {
+    if (candles.length === 0) return;
+    const holes = candleHistory.holes(pairId, interval, candles[0].time, candles[candles.length - 1].time);
+    if (holes.length > 0) {
+      res.setHeader('X-History-Holes', holes.map(hole => `${hole.from}-${hole.to}`).join(','));
+    }
   }
   
+  // Largest number of candles a single OHLC request may return
+  const DEFAULT_OHLC_LIMIT = 720; // Same as Kraken's own page size
+  const MAX_OHLC_LIMIT = 5000;
+  
   // Define Kraken API proxy endpoints
   // This helps to avoid CORS issues with direct client requests
   app.get('/api/kraken/ohlc', async (req, res) => {
     try {
-      const { pair, interval, since } = req.query;
+      const { pair, interval, since, before, limit } = req.query;
       
       // Validate required parameters
       if (!pair) {
@@ -99,44 +256,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Build URL with proper parameter handling
-      const params = new URLSearchParams();
-      params.append('pair', pair as string);
-      
-      if (interval) {
-        params.append('interval', interval as string);
-      }
+      const intervalMinutes = interval ? parseInt(interval as string, 10) : 1;
+      const sinceTime = since ? parseInt(since as string, 10) : undefined;
+      const beforeTime = before ? parseInt(before as string, 10) : undefined;
+      const maxCandles = limit ? parseInt(limit as string, 10) : DEFAULT_OHLC_LIMIT;
       
-      if (since) {
-        params.append('since', since as string);
+      if (isNaN(intervalMinutes) || isNaN(maxCandles) ||
+          (sinceTime !== undefined && isNaN(sinceTime)) ||
+          (beforeTime !== undefined && isNaN(beforeTime))) {
+        return res.status(400).json({ 
+          error: ['Invalid parameter: interval, since, before and limit must be numbers'] 
+        });
       }
       
-      const url = `https://api.kraken.com/0/public/OHLC?${params.toString()}`;
-      
-      // Use retry logic with rate limiting
-      const response = await fetchWithRetry(url);
+      const pageSize = Math.min(Math.max(maxCandles, 1), MAX_OHLC_LIMIT);
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        // console.error(`Kraken API error: ${response.status} ${errorText}`);
-        return res.status(response.status).json({ 
-          error: [`Error fetching OHLC data: ${response.status}`] 
+      // Paging backwards is served from stored history only, Kraken itself
+      // never returns anything older than its latest 720 candles. Those
+      // candles are closed, so the store serves them for good.
+      if (beforeTime !== undefined) {
+        const { pairId, candles: older } = await candleHistory.candles(pair as string, intervalMinutes, {
+          since: sinceTime,
+          before: beforeTime,
+          limit: pageSize,
+        });
+        
+        if (older.length > 0) res.setHeader('X-Cache', 'HIT');
+        setHoleHeader(res, pairId, intervalMinutes, older);
+        return res.json({
+          error: [],
+          result: {
+            [pairId]: older.map(candleToRow),
+            // Cursor for the next page further back
+            last: older.length > 0 ? older[0].time : beforeTime,
+          },
         });
       }
       
-      const data = await response.json() as { error?: string[], result?: any };
+      // Only the newest candles are synced with Kraken, shared by every
+      // request for the series until the forming candle is due for a refresh.
+      // Gap repairs ask for the candles after `since`, a sync from before the
+      // first of them closed can't have them.
+      const sync = await krakenCache.get(
+        `ohlc:${pair}:${intervalMinutes}`,
+        cachePolicies.ohlc,
+        () => candleHistory.sync(pair as string, intervalMinutes),
+        sinceTime !== undefined ? (sinceTime + 2 * intervalMinutes * 60) * 1000 : undefined
+      );
+      const { pairId, last } = sync.value;
       
-      if (data.error && Array.isArray(data.error) && data.error.length > 0) {
-        // console.error('Kraken API returned error:', data.error);
-        return res.status(400).json({ error: data.error });
-      }
+      const candles = await candleStore.getCandles(pairId, intervalMinutes, {
+        since: sinceTime,
+        limit: pageSize,
+      });
       
-      res.json(data);
+      setCacheHeaders(res, sync);
+      setHoleHeader(res, pairId, intervalMinutes, candles);
+      res.json({
+        error: [],
+        result: {
+          [pairId]: candles.map(candleToRow),
+          last,
+        },
+      });
     } catch (error) {
       // console.error('Error proxying Kraken OHLC request:', error);
-      res.status(500).json({ 
-        error: ['Failed to fetch OHLC data from Kraken API'] 
-      });
+      sendProxyError(res, error, 'Failed to fetch OHLC data from Kraken API');
     }
   });
 
@@ -156,75 +341,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
       params.append('pair', pair as string);
       
       const url = `https://api.kraken.com/0/public/Ticker?${params.toString()}`;
+      const cached = await krakenCache.get(
+        `ticker:${params.toString()}`,
+        cachePolicies.ticker,
+        () => fetchKraken(url, 'ticker data', 'ticker')
+      );
       
-      // Use retry logic with rate limiting
-      const response = await fetchWithRetry(url);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        // console.error(`Kraken API error: ${response.status} ${errorText}`);
-        return res.status(response.status).json({ 
-          error: [`Error fetching ticker data: ${response.status}`] 
-        });
-      }
-      
-      const data:any = await response.json();
-      
-      if (data.error && data.error.length > 0) {
-        // console.error('Kraken API returned error:', data.error);
-        return res.status(400).json({ error: data.error });
-      }
-      
-      res.json(data);
+      setCacheHeaders(res, cached);
+      res.json(cached.value);
     } catch (error) {
       // console.error('Error proxying Kraken Ticker request:', error);
-      res.status(500).json({ 
-        error: ['Failed to fetch ticker data from Kraken API']
-      });
+      sendProxyError(res, error, 'Failed to fetch ticker data from Kraken API');
     }
   });
 
-  app.get('/api/kraken/assetpairs', async (req, res) => {
+  app.get('/api/kraken/trades', async (req, res) => {
     try {
-      const url = 'https://api.kraken.com/0/public/AssetPairs';
+      const { pair, since, count } = req.query;
       
-      // Use retry logic with rate limiting
-      const response = await fetchWithRetry(url);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        // console.error(`Kraken API error: ${response.status} ${errorText}`);
-        return res.status(response.status).json({ 
-          error: [`Error fetching asset pairs: ${response.status}`] 
+      // Validate required parameters
+      if (!pair) {
+        return res.status(400).json({ 
+          error: ['Missing required parameter: pair'] 
         });
       }
       
-      const data:any = await response.json();
+      // Build URL with proper parameter handling
+      const params = new URLSearchParams();
+      params.append('pair', pair as string);
+      
+      if (since) {
+        params.append('since', since as string);
+      }
       
-      if (data.error && data.error.length > 0) {
-        // console.error('Kraken API returned error:', data.error);
-        return res.status(400).json({ error: data.error });
+      if (count) {
+        params.append('count', count as string);
       }
       
-      res.json(data);
+      const url = `https://api.kraken.com/0/public/Trades?${params.toString()}`;
+      const cached = await krakenCache.get(
+        `trades:${params.toString()}`,
+        cachePolicies.trades,
+        () => fetchKraken(url, 'trades', 'trades')
+      );
+      
+      setCacheHeaders(res, cached);
+      res.json(cached.value);
+    } catch (error) {
+      // console.error('Error proxying Kraken Trades request:', error);
+      sendProxyError(res, error, 'Failed to fetch trades from Kraken API');
+    }
+  });
+
+  app.get('/api/kraken/assetpairs', async (_req, res) => {
+    try {
+      const cached = await getAssetPairs();
+      
+      setCacheHeaders(res, cached);
+      res.json(cached.value);
     } catch (error) {
       // console.error('Error proxying Kraken AssetPairs request:', error);
-      res.status(500).json({ 
-        error: ['Failed to fetch asset pairs from Kraken API']
-      });
+      sendProxyError(res, error, 'Failed to fetch asset pairs from Kraken API');
     }
   });
 
+  // Queue depth and wait times of the Kraken rate limiter
+  app.get('/api/kraken/metrics', (_req, res) => {
+    res.json({
+      rateLimiter: krakenLimiter.metrics(),
+      upstream: upstream.status,
+      cache: { entries: krakenCache.size },
+    });
+  });
+
   // Maximum number of clients we'll support
   const MAX_CLIENTS = 100; // Increased from 20 to handle more concurrent connections
   
-  // Track the number of active Kraken connections
-  let activeKrakenConnections = 0;
-  
-  // Create a shared Kraken WebSocket connection
-  let sharedKrakenWs: WebSocket | null = null;
   let krakenClients = new Set<WebSocket>();
   
+  // Signed in user of each client, alert triggers only go to their owner
+  const clientUsers = new Map<WebSocket, number>();
+  
+  // Request each client subscribed a channel with, echoed on its subscription errors
+  const clientReqids = new Map<WebSocket, Map<string, number>>();
+  
+  // Which upstream channels each client, or the alert engine, is listening to
+  const subscriptions = new SubscriptionRegistry<WebSocket | AlertEngine>();
+  
+  function sendMessage(client: WebSocket, message: ServerMessage) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+  
+  function broadcast(message: ServerMessage) {
+    const data = JSON.stringify(message);
+    krakenClients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
+  
+  // Connection health as sent to clients, connected while Kraken data can flow
+  function statusMessage() {
+    return serverMessage({ type: 'status', connected: upstream.isOpen, health: upstream.status });
+  }
+  
+  // Drop upstream subscriptions that no client is interested in anymore
+  function unsubscribeUpstream(orphaned: ChannelSubscription[]) {
+    upstream.unsubscribe(orphaned);
+  }
+  
+  // Forget a client and everything it was subscribed to
+  function releaseClient(client: WebSocket) {
+    krakenClients.delete(client);
+    clientUsers.delete(client);
+    clientReqids.delete(client);
+    unsubscribeUpstream(subscriptions.removeClient(client));
+  }
+  
+  // Deliver upstream data to the clients subscribed to its channel
+  function sendToSubscribers(key: string, data: string) {
+    subscriptions.clientsFor(key).forEach(client => {
+      if (client instanceof WebSocket && client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  }
+  
   // Periodically check for and clean up stale client connections
   setInterval(() => {
     let removedCount = 0;
@@ -235,7 +480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check if the connection is not open or has been inactive
       if (client.readyState !== WebSocket.OPEN || 
           ((client as any).lastActivity && now - (client as any).lastActivity > inactivityTimeout)) {
-        krakenClients.delete(client);
+        releaseClient(client);
         
         // Try to close the connection if it's still open
         if (client.readyState === WebSocket.OPEN) {
@@ -266,75 +511,301 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }, 15000); // Check every 15 seconds
   
-  // Setup shared Kraken WebSocket connection
-  function setupKrakenWebSocket() {
-    if (sharedKrakenWs && (sharedKrakenWs.readyState === WebSocket.OPEN || 
-                          sharedKrakenWs.readyState === WebSocket.CONNECTING)) {
-      return sharedKrakenWs;
+  // The shared Kraken connection, open while clients or armed alerts need it
+  // KRAKEN_WS_VERSION selects Kraken's v1 or v2 WebSocket API
+  const upstream = new UpstreamSupervisor({
+    adapter: krakenAdapterFromEnv({ precision: pair => pairPrecisions.get(pair) }),
+    subscriptions: () => subscriptions.all(),
+    onEvent(event) {
+      // Channel data only goes to the clients subscribed to that channel
+      if (event.type === 'data') {
+        const { message } = event;
+        sendToSubscribers(event.key, JSON.stringify(message));
+        if (message.type === 'update' && message.channel === 'ohlc') {
+          storeLiveCandle(message.pair, message.interval, message.candle);
+          alertEngine.handleCandle(message.pair, message.interval, message.candle);
+        }
+        return;
+      }
+      
+      // Refused subscriptions are reported to the clients of that channel
+      if (event.type === 'subscriptionError') {
+        const { subscription } = event;
+        const key = subscriptionKey(subscription);
+        subscriptions.clientsFor(key).forEach(client => {
+          if (!(client instanceof WebSocket)) return;
+          sendMessage(client, serverMessage({
+            type: 'error',
+            code: 'subscription_failed',
+            message: event.error,
+            reqid: clientReqids.get(client)?.get(key),
+            channel: subscription,
+          }));
+        });
+        return;
+      }
+      
+      // systemStatus is part of the health, other errors concern everyone
+      if (event.type === 'error') {
+        broadcast(serverMessage({ type: 'error', code: 'upstream_error', message: event.error }));
+      }
+    },
+    onHealth() {
+      broadcast(statusMessage());
+    },
+  });
+  
+  // Triggered alerts are also pushed to webhooks, Slack and email
+  const notifications = new NotificationDispatcher(storage);
+  
+  // Armed alerts hold their own upstream subscriptions, which keeps the
+  // Kraken connection open while no browser is connected
+  const alertEngine: AlertEngine = new AlertEngine(storage, {
+    subscribe(subscription) {
+      if (subscriptions.add(alertEngine, subscription)) {
+        upstream.subscribe([subscription]);
+      }
+      upstream.start();
+    },
+    unsubscribe(subscription) {
+      const orphaned = subscriptions.remove(alertEngine, subscription);
+      if (orphaned) {
+        unsubscribeUpstream([orphaned]);
+      }
+    },
+    onTrigger(event) {
+      const message = serverMessage(event);
+      clientUsers.forEach((userId, client) => {
+        if (userId === event.alert.userId) sendMessage(client, message);
+      });
+      
+      // Delivery results end up in the delivery log
+      notifications.dispatch(event).catch(() => {
+        // console.error('Error dispatching notifications:', error);
+      });
+    },
+    async loadHistory(pair, interval, count) {
+      await loadPairIds();
+      const pairId = pairIdsByName.get(pair);
+      if (!pairId) return [];
+      
+      const stored = await candleStore.getCandles(pairId, interval, { limit: count + 1 });
+      return stored.map(candle => ({
+        time: candle.time,
+        close: parseFloat(candle.close),
+        volume: parseFloat(candle.volume),
+      }));
+    },
+  });
+  
+  alertEngine.load().catch(() => {
+    // console.error('Error loading alerts:', error);
+  });
+  
+  // Alerts, notification settings and preferences are only for signed
+  // in users, market data stays public
+  app.use(['/api/alerts', '/api/notifications', '/api/preferences'], requireAuth);
+  
+  // 404 until the user saved preferences, the client then migrates the
+  // ones it kept in localStorage
+  app.get('/api/preferences', async (req, res) => {
+    try {
+      const stored = await storage.getPreferences(req.user!.id);
+      if (!stored) {
+        return res.status(404).json({ error: ['No preferences saved'] });
+      }
+      // Fill in settings added since they were saved
+      res.json(preferencesSchema.parse(stored));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to load preferences'] });
+    }
+  });
+  
+  app.put('/api/preferences', async (req, res) => {
+    const parsed = preferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
     }
     
-    activeKrakenConnections++;
-    // console.log(`Creating Kraken WebSocket connection (active: ${activeKrakenConnections})`);
+    try {
+      res.json(await storage.savePreferences(req.user!.id, parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to save preferences'] });
+    }
+  });
+  
+  app.get('/api/alerts', async (req, res) => {
+    try {
+      res.json(await storage.getAlerts(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to load alerts'] });
+    }
+  });
+  
+  app.post('/api/alerts', async (req, res) => {
+    const parsed = insertAlertSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
+    }
     
-    sharedKrakenWs = new WebSocket('wss://ws.kraken.com');
+    try {
+      const alert = await storage.createAlert(req.user!.id, parsed.data);
+      alertEngine.track(alert);
+      res.status(201).json(alert);
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to create alert'] });
+    }
+  });
+  
+  app.patch('/api/alerts/:id', async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    const parsed = updateAlertSchema.safeParse(req.body);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: ['Invalid alert id'] });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
+    }
     
-    sharedKrakenWs.on('open', () => {
-      // console.log('Connected to Kraken WebSocket API');
+    try {
+      // Re-arming clears the previous trigger
+      const changes = parsed.data.active ? { ...parsed.data, triggeredAt: null } : parsed.data;
+      const alert = await storage.updateAlert(req.user!.id, id, changes);
+      if (!alert) {
+        return res.status(404).json({ error: ['Alert not found'] });
+      }
       
-      // Resubscribe all clients if we reconnected
-      krakenClients.forEach(client => {
-        // Send a ping to each client to verify connection
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ type: 'status', connected: true }));
-        }
-      });
-    });
+      alertEngine.track(alert);
+      res.json(alert);
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to update alert'] });
+    }
+  });
+  
+  app.delete('/api/alerts/:id', async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: ['Invalid alert id'] });
+    }
     
-    sharedKrakenWs.on('message', (data) => {
-      // Broadcast to all connected clients
-      krakenClients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(data);
-        }
-      });
-    });
+    try {
+      if (!await storage.deleteAlert(req.user!.id, id)) {
+        return res.status(404).json({ error: ['Alert not found'] });
+      }
+      
+      alertEngine.untrack(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to delete alert'] });
+    }
+  });
+  
+  const DEFAULT_DELIVERY_LIMIT = 100;
+  const MAX_DELIVERY_LIMIT = 500;
+  
+  app.get('/api/notifications/channels', async (req, res) => {
+    try {
+      const channels = await storage.getNotificationChannels(req.user!.id);
+      res.json(channels.map(publicChannel));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to load notification channels'] });
+    }
+  });
+  
+  app.post('/api/notifications/channels', async (req, res) => {
+    const parsed = insertNotificationChannelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
+    }
     
-    sharedKrakenWs.on('error', (error) => {
-      // console.error('Kraken WebSocket error:', error);
-    });
+    try {
+      const channel = await storage.createNotificationChannel(req.user!.id, parsed.data);
+      res.status(201).json(publicChannel(channel));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to create notification channel'] });
+    }
+  });
+  
+  app.patch('/api/notifications/channels/:id', async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    const parsed = updateNotificationChannelSchema.safeParse(req.body);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: ['Invalid channel id'] });
+    }
+    if (!parsed.success) {
+      return res.status(400).json({ error: [fromZodError(parsed.error).message] });
+    }
     
-    sharedKrakenWs.on('close', () => {
-      // console.log('Kraken WebSocket connection closed');
-      sharedKrakenWs = null;
-      activeKrakenConnections--;
-      
-      // Notify clients of disconnection
-      krakenClients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({ type: 'status', connected: false }));
-        }
-      });
-      
-      // Attempt to reconnect if we still have clients
-      if (krakenClients.size > 0) {
-        // console.log('Attempting to reconnect to Kraken WebSocket...');
-        setTimeout(setupKrakenWebSocket, 2000);
+    try {
+      const channel = await storage.updateNotificationChannel(req.user!.id, id, parsed.data);
+      if (!channel) {
+        return res.status(404).json({ error: ['Notification channel not found'] });
       }
-    });
+      res.json(publicChannel(channel));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to update notification channel'] });
+    }
+  });
+  
+  app.delete('/api/notifications/channels/:id', async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: ['Invalid channel id'] });
+    }
     
-    return sharedKrakenWs;
-  }
+    try {
+      if (!await storage.deleteNotificationChannel(req.user!.id, id)) {
+        return res.status(404).json({ error: ['Notification channel not found'] });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to delete notification channel'] });
+    }
+  });
+  
+  // Waits for the delivery, including retries, and returns its log entry
+  app.post('/api/notifications/channels/:id/test', async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: ['Invalid channel id'] });
+    }
+    
+    try {
+      const channel = await storage.getNotificationChannel(req.user!.id, id);
+      if (!channel) {
+        return res.status(404).json({ error: ['Notification channel not found'] });
+      }
+      res.json(await notifications.sendTest(channel));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to send test notification'] });
+    }
+  });
+  
+  // Delivery log, newest first
+  app.get('/api/notifications/deliveries', async (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_DELIVERY_LIMIT;
+    if (isNaN(limit)) {
+      return res.status(400).json({ error: ['Invalid parameter: limit must be a number'] });
+    }
+    
+    try {
+      res.json(await storage.getDeliveries(req.user!.id, Math.min(Math.max(limit, 1), MAX_DELIVERY_LIMIT)));
+    } catch (error) {
+      res.status(500).json({ error: ['Failed to load notification deliveries'] });
+    }
+  });
   
   // Handle WebSocket connections
-  wss.on('connection', (ws) => {
+  wss.on('connection', (ws, req) => {
     // console.log('WebSocket client connected');
     
     // Check if we have too many connections already
     if (krakenClients.size >= MAX_CLIENTS) {
       console.warn('Too many WebSocket clients, rejecting connection');
-      ws.send(JSON.stringify({ 
-        type: 'error', 
-        message: 'Too many connections to the server.' 
+      sendMessage(ws, serverMessage({
+        type: 'error',
+        code: 'too_many_connections',
+        message: 'Too many connections to the server.'
       }));
       ws.close();
       return;
@@ -351,16 +822,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // Add to our client tracking
     krakenClients.add(ws);
+    sessionUserId(req).then(userId => {
+      if (userId !== undefined && krakenClients.has(ws)) clientUsers.set(ws, userId);
+    }).catch(() => {
+      // Treated as anonymous
+    });
     
-    // Setup or get the shared Kraken connection
-    const krakenWs = setupKrakenWebSocket();
+    // Connect to Kraken if nobody needed it so far
+    upstream.start();
     
     // Let the client know about our connection status
-    if (krakenWs.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'status', connected: true }));
-    } else {
-      ws.send(JSON.stringify({ type: 'status', connected: false }));
-    }
+    sendMessage(ws, statusMessage());
     
     // Handle messages from client
     ws.on('message', (message) => {
@@ -368,34 +840,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Update last activity timestamp
         (ws as any).lastActivity = Date.now();
         
-        // Try to parse the message to see if it's a ping
+        let parsedMessage: any;
         try {
-          const parsedMessage = JSON.parse(message.toString());
-          
-          // Handle ping messages with a pong response
-          if (parsedMessage.type === 'ping') {
-            ws.send(JSON.stringify({
-              type: 'pong',
-              timestamp: Date.now(),
-              echo: parsedMessage.timestamp
-            }));
-            return;
-          }
+          parsedMessage = JSON.parse(message.toString());
         } catch (parseError) {
-          // Not JSON or couldn't parse, continue with normal handling
+          sendMessage(ws, serverMessage({ type: 'error', code: 'invalid_message', message: 'Messages must be JSON' }));
+          return;
         }
         
-        // Forward subscription requests to Kraken
-        if (krakenWs.readyState === WebSocket.OPEN) {
-          krakenWs.send(message);
-        } else {
-          // console.log('Kraken WebSocket not ready, buffering message');
-          // Notify client of pending connection
-          ws.send(JSON.stringify({ 
-            type: 'status', 
-            connected: false, 
-            message: 'Connecting to Kraken...' 
+        const reqid = typeof parsedMessage?.reqid === 'number' ? parsedMessage.reqid : undefined;
+        if (parsedMessage?.v !== PROTOCOL_VERSION) {
+          sendMessage(ws, serverMessage({
+            type: 'error',
+            code: 'unsupported_version',
+            message: `Protocol version ${PROTOCOL_VERSION} is required`,
+            reqid,
+          }));
+          return;
+        }
+        
+        const result = clientMessageSchema.safeParse(parsedMessage);
+        if (!result.success) {
+          sendMessage(ws, serverMessage({
+            type: 'error',
+            code: 'invalid_message',
+            message: fromZodError(result.error).toString(),
+            reqid,
+          }));
+          return;
+        }
+        const request = result.data;
+        
+        // Handle ping messages with a pong response
+        if (request.type === 'ping') {
+          sendMessage(ws, serverMessage({
+            type: 'pong',
+            timestamp: Date.now(),
+            echo: request.timestamp
           }));
+          return;
+        }
+        
+        // Track subscriptions per client and only talk to Kraken
+        // when the first client joins or the last one leaves a channel
+        const requested: ChannelSubscription[] = request.channels;
+        const reqids = clientReqids.get(ws) ?? new Map<string, number>();
+        clientReqids.set(ws, reqids);
+        
+        if (request.type === 'subscribe') {
+          const added: ChannelSubscription[] = [];
+          requested.forEach(subscription => {
+            if (request.reqid !== undefined) {
+              reqids.set(subscriptionKey(subscription), request.reqid);
+            }
+            if (subscriptions.add(ws, subscription)) {
+              added.push(subscription);
+            } else if (needsSnapshot(subscription)) {
+              // Resubscribe so Kraken sends a fresh snapshot to every subscriber
+              upstream.unsubscribe([subscription]);
+              upstream.subscribe([subscription]);
+            }
+          });
+          // A multi-pair request stays a single upstream message
+          upstream.subscribe(added);
+          sendMessage(ws, serverMessage({ type: 'subscribed', reqid: request.reqid, channels: request.channels }));
+          
+          if (!upstream.isOpen) {
+            // console.log('Kraken WebSocket not ready, subscribing once connected');
+            // Notify client of pending connection
+            sendMessage(ws, statusMessage());
+          }
+        } else {
+          const orphaned: ChannelSubscription[] = [];
+          requested.forEach(subscription => {
+            reqids.delete(subscriptionKey(subscription));
+            const released = subscriptions.remove(ws, subscription);
+            if (released) orphaned.push(released);
+          });
+          unsubscribeUpstream(orphaned);
+          sendMessage(ws, serverMessage({ type: 'unsubscribed', reqid: request.reqid, channels: request.channels }));
         }
       } catch (error) {
         // console.error('Error handling client message:', error);
@@ -405,14 +928,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Handle client disconnect
     ws.on('close', () => {
       // console.log('WebSocket client disconnected');
-      krakenClients.delete(ws);
+      releaseClient(ws);
       
-      // If no more clients, close the shared connection
-      if (krakenClients.size === 0 && sharedKrakenWs && 
-          sharedKrakenWs.readyState === WebSocket.OPEN) {
+      // If no more clients, close the shared connection unless alerts need it
+      if (krakenClients.size === 0 && !alertEngine.hasActiveAlerts) {
         // console.log('No more clients, closing Kraken WebSocket');
-        sharedKrakenWs.close();
-        sharedKrakenWs = null;
+        upstream.stop();
       }
     });
     
@@ -424,7 +945,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } catch (e) {
         // Ignore close errors
       }
-      krakenClients.delete(ws);
+      releaseClient(ws);
     });
   });
 
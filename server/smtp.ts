@@ -0,0 +1,208 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+/**
+ * Just enough SMTP to hand a plain text message to a relay.
+ *
+ * Supports plain connections and implicit TLS (usually port 465) with
+ * optional AUTH LOGIN. STARTTLS is not implemented, point SMTP_PORT at
+ * the TLS port of providers that require encryption.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Replies with a 5xx code are permanent failures, anything else may be retried
+export class SmtpError extends Error {
+  constructor(message: string, readonly code: number | null = null) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  get permanent(): boolean {
+    return this.code !== null && this.code >= 500;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const SMTP_TIMEOUT = 15000;
+
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) return null;
+
+  const secure = env.SMTP_SECURE === 'true';
+  const port = env.SMTP_PORT ? parseInt(env.SMTP_PORT, 10) : secure ? 465 : 25;
+  return {
+    host: env.SMTP_HOST,
+    port: isNaN(port) ? 25 : port,
+    secure,
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM,
+  };
+}
+
+// Non-ASCII header values need RFC 2047 encoding
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  // Normalise line endings and escape lines starting with a dot
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      const connection = new SmtpConnection(socket);
+      socket.once(config.secure ? 'secureConnect' : 'connect', () => resolve(connection));
+      socket.once('error', reject);
+    });
+  }
+
+  reply(): Promise<SmtpReply> {
+    const next = this.replies.shift();
+    if (next) return Promise.resolve(next);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  // `label` names the step in errors, so credentials and message bodies stay out of them
+  async expect(codes: number[], command?: string, label = command?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+    if (command !== undefined) {
+      this.socket.write(`${command}\r\n`);
+    }
+    const reply = await this.reply();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${label} failed: ${reply.code} ${reply.text}`, reply.code);
+    }
+    return reply;
+  }
+
+  close() {
+    this.socket.end();
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let lines: string[] = [];
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      lines.push(line);
+
+      // "250-" continues a multiline reply, "250 " ends it
+      if (line.length < 4 || line[3] !== '-') {
+        this.deliver({
+          code: parseInt(line.slice(0, 3), 10),
+          text: lines.map(part => part.slice(4)).join('\n'),
+        });
+        lines = [];
+      }
+    }
+    if (lines.length > 0) {
+      this.buffer = `${lines.join('\r\n')}\r\n${this.buffer}`;
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    const waiting = this.waiting;
+    if (waiting) {
+      this.waiting = null;
+      waiting.resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let connection: SmtpConnection;
+  try {
+    connection = await SmtpConnection.open(config);
+  } catch (error) {
+    throw new SmtpError(`Could not connect to ${config.host}:${config.port}: ${(error as Error).message}`);
+  }
+
+  try {
+    await connection.expect([220]);
+    await connection.expect([250], `EHLO ${os.hostname() || 'localhost'}`);
+
+    if (config.user && config.pass) {
+      await connection.expect([334], 'AUTH LOGIN');
+      await connection.expect([334], Buffer.from(config.user).toString('base64'), 'AUTH');
+      await connection.expect([235], Buffer.from(config.pass).toString('base64'), 'AUTH');
+    }
+
+    await connection.expect([250], `MAIL FROM:<${config.from}>`);
+    await connection.expect([250, 251], `RCPT TO:<${message.to}>`);
+    await connection.expect([354], 'DATA');
+    await connection.expect([250], `${formatMessage(config.from, message)}\r\n.`, 'message');
+    await connection.expect([221], 'QUIT').catch(() => {
+      // The message is accepted already
+    });
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,52 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemStorage, UsernameTakenError } from './storage';
+
+describe('MemStorage', () => {
+  test('rejects a second user with the same name', async () => {
+    const storage = new MemStorage();
+    await storage.createUser({ username: 'alice', password: 'hash' });
+
+    await assert.rejects(storage.createUser({ username: 'alice', password: 'other' }), UsernameTakenError);
+  });
+
+  test('registers only one of two concurrent users with the same name', async () => {
+    const storage = new MemStorage();
+
+    const results = await Promise.allSettled([
+      storage.createUser({ username: 'alice', password: 'hash' }),
+      storage.createUser({ username: 'alice', password: 'other' }),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.status), ['fulfilled', 'rejected']);
+    assert.ok((results[1] as PromiseRejectedResult).reason instanceof UsernameTakenError);
+    assert.equal((await storage.getUserByUsername('alice'))?.password, 'hash');
+  });
+
+  test("treats other users' alerts as missing", async () => {
+    const storage = new MemStorage();
+    const alert = await storage.createAlert(1, { pair: 'XBT/USD', condition: 'price_above', threshold: 50000 });
+
+    assert.equal(await storage.getAlert(2, alert.id), undefined);
+    assert.equal(await storage.updateAlert(2, alert.id, { threshold: 1 }), undefined);
+    assert.equal(await storage.deleteAlert(2, alert.id), false);
+    assert.deepEqual(await storage.getAlerts(2), []);
+    assert.deepEqual(await storage.getAlerts(1), [alert]);
+    assert.deepEqual(await storage.getActiveAlerts(), [alert]);
+  });
+
+  test("treats other users' notification channels as missing", async () => {
+    const storage = new MemStorage();
+    const channel = await storage.createNotificationChannel(1, {
+      type: 'webhook',
+      name: 'Hook',
+      target: 'https://example.com/hook',
+    });
+
+    assert.equal(await storage.getNotificationChannel(2, channel.id), undefined);
+    assert.equal(await storage.updateNotificationChannel(2, channel.id, { active: false }), undefined);
+    assert.equal(await storage.deleteNotificationChannel(2, channel.id), false);
+    assert.deepEqual(await storage.getNotificationChannels(2), []);
+    assert.equal(await storage.deleteNotificationChannel(1, channel.id), true);
+  });
+});
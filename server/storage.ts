@@ -1,4 +1,24 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, desc, eq, gt, lt, sql } from "drizzle-orm";
+import {
+  users,
+  candles,
+  alerts,
+  notificationChannels,
+  notificationDeliveries,
+  preferences,
+  type User,
+  type InsertUser,
+  type Candle,
+  type Alert,
+  type InsertAlert,
+  type UpdateAlert,
+  type NotificationChannel,
+  type InsertNotificationChannel,
+  type UpdateNotificationChannel,
+  type NotificationDelivery,
+  type Preferences,
+} from "@shared/schema";
+import { createDb, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +27,72 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Alerts, channels and deliveries belong to a user, rows of other users
+  // read as missing. Only the alert engine looks at every user's alerts.
+  getActiveAlerts(): Promise<Alert[]>;
+  getAlerts(userId: number): Promise<Alert[]>;
+  getAlert(userId: number, id: number): Promise<Alert | undefined>;
+  createAlert(userId: number, alert: InsertAlert): Promise<Alert>;
+  updateAlert(userId: number, id: number, changes: UpdateAlert & { triggeredAt?: number | null }): Promise<Alert | undefined>;
+  deleteAlert(userId: number, id: number): Promise<boolean>;
+  getNotificationChannels(userId: number): Promise<NotificationChannel[]>;
+  getNotificationChannel(userId: number, id: number): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(userId: number, channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(userId: number, id: number, changes: UpdateNotificationChannel): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(userId: number, id: number): Promise<boolean>;
+  // Newest first
+  getDeliveries(userId: number, limit: number): Promise<NotificationDelivery[]>;
+  createDelivery(delivery: { userId: number; channelId: number; alertId: number | null }): Promise<NotificationDelivery>;
+  updateDelivery(id: number, changes: DeliveryUpdate): Promise<NotificationDelivery | undefined>;
+  // Undefined until the user saved preferences for the first time
+  getPreferences(userId: number): Promise<Preferences | undefined>;
+  savePreferences(userId: number, preferences: Preferences): Promise<Preferences>;
+}
+
+// createUser found the username taken, possibly by a concurrent registration
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username "${username}" is already taken`);
+    this.name = "UsernameTakenError";
+  }
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+export type DeliveryUpdate = Partial<Pick<NotificationDelivery, "status" | "attempts" | "error" | "completedAt">>;
+
+const unixNow = () => Math.floor(Date.now() / 1000);
+
+// The in-memory delivery log only keeps the most recent entries
+const MAX_MEM_DELIVERIES = 500;
+
+// A row of the given user, undefined when it belongs to someone else
+function owned<T extends { userId: number }>(row: T | undefined, userId: number): T | undefined {
+  return row?.userId === userId ? row : undefined;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private alerts: Map<number, Alert>;
+  private channels: Map<number, NotificationChannel>;
+  private deliveries: Map<number, NotificationDelivery>;
+  private preferences: Map<number, Preferences>;
   currentId: number;
+  currentAlertId: number;
+  currentChannelId: number;
+  currentDeliveryId: number;
 
   constructor() {
     this.users = new Map();
+    this.alerts = new Map();
+    this.channels = new Map();
+    this.deliveries = new Map();
+    this.preferences = new Map();
     this.currentId = 1;
+    this.currentAlertId = 1;
+    this.currentChannelId = 1;
+    this.currentDeliveryId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -29,11 +106,454 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    // Check and insert without awaiting in between, or concurrent
+    // registrations could both pass the check
+    const taken = Array.from(this.users.values()).some(
+      (user) => user.username === insertUser.username,
+    );
+    if (taken) {
+      throw new UsernameTakenError(insertUser.username);
+    }
+
     const id = this.currentId++;
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter((alert) => alert.active);
+  }
+
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return Array.from(this.alerts.values()).filter((alert) => alert.userId === userId);
+  }
+
+  async getAlert(userId: number, id: number): Promise<Alert | undefined> {
+    return owned(this.alerts.get(id), userId);
+  }
+
+  async createAlert(userId: number, insertAlert: InsertAlert): Promise<Alert> {
+    const id = this.currentAlertId++;
+    const alert: Alert = {
+      id,
+      userId,
+      pair: insertAlert.pair,
+      condition: insertAlert.condition,
+      threshold: insertAlert.threshold,
+      interval: insertAlert.interval ?? 1,
+      lookback: insertAlert.lookback ?? 20,
+      note: insertAlert.note ?? null,
+      active: true,
+      createdAt: unixNow(),
+      triggeredAt: null,
+    };
+    this.alerts.set(id, alert);
+    return alert;
+  }
+
+  async updateAlert(userId: number, id: number, changes: UpdateAlert & { triggeredAt?: number | null }): Promise<Alert | undefined> {
+    const alert = owned(this.alerts.get(id), userId);
+    if (!alert) return undefined;
+
+    const updated: Alert = { ...alert, ...changes };
+    this.alerts.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlert(userId: number, id: number): Promise<boolean> {
+    return owned(this.alerts.get(id), userId) !== undefined && this.alerts.delete(id);
+  }
+
+  async getNotificationChannels(userId: number): Promise<NotificationChannel[]> {
+    return Array.from(this.channels.values()).filter((channel) => channel.userId === userId);
+  }
+
+  async getNotificationChannel(userId: number, id: number): Promise<NotificationChannel | undefined> {
+    return owned(this.channels.get(id), userId);
+  }
+
+  async createNotificationChannel(userId: number, insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const id = this.currentChannelId++;
+    const channel: NotificationChannel = {
+      id,
+      userId,
+      type: insertChannel.type,
+      name: insertChannel.name,
+      target: insertChannel.target,
+      secret: insertChannel.secret ?? null,
+      active: true,
+      createdAt: unixNow(),
+    };
+    this.channels.set(id, channel);
+    return channel;
+  }
+
+  async updateNotificationChannel(userId: number, id: number, changes: UpdateNotificationChannel): Promise<NotificationChannel | undefined> {
+    const channel = owned(this.channels.get(id), userId);
+    if (!channel) return undefined;
+
+    const updated: NotificationChannel = { ...channel, ...changes };
+    this.channels.set(id, updated);
+    return updated;
+  }
+
+  async deleteNotificationChannel(userId: number, id: number): Promise<boolean> {
+    return owned(this.channels.get(id), userId) !== undefined && this.channels.delete(id);
+  }
+
+  async getDeliveries(userId: number, limit: number): Promise<NotificationDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => delivery.userId === userId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async createDelivery(delivery: { userId: number; channelId: number; alertId: number | null }): Promise<NotificationDelivery> {
+    const id = this.currentDeliveryId++;
+    const created: NotificationDelivery = {
+      id,
+      userId: delivery.userId,
+      channelId: delivery.channelId,
+      alertId: delivery.alertId,
+      status: "pending",
+      attempts: 0,
+      error: null,
+      createdAt: unixNow(),
+      completedAt: null,
+    };
+    this.deliveries.set(id, created);
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.deliveries.size > MAX_MEM_DELIVERIES) {
+      const oldest = this.deliveries.keys().next().value;
+      if (oldest !== undefined) this.deliveries.delete(oldest);
+    }
+    return created;
+  }
+
+  async updateDelivery(id: number, changes: DeliveryUpdate): Promise<NotificationDelivery | undefined> {
+    const delivery = this.deliveries.get(id);
+    if (!delivery) return undefined;
+
+    const updated: NotificationDelivery = { ...delivery, ...changes };
+    this.deliveries.set(id, updated);
+    return updated;
+  }
+
+  async getPreferences(userId: number): Promise<Preferences | undefined> {
+    return this.preferences.get(userId);
+  }
+
+  async savePreferences(userId: number, preferences: Preferences): Promise<Preferences> {
+    this.preferences.set(userId, preferences);
+    return preferences;
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new UsernameTakenError(insertUser.username);
+      }
+      throw error;
+    }
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.active, true)).orderBy(alerts.id);
+  }
+
+  async getAlerts(userId: number): Promise<Alert[]> {
+    return this.db.select().from(alerts).where(eq(alerts.userId, userId)).orderBy(alerts.id);
+  }
+
+  async getAlert(userId: number, id: number): Promise<Alert | undefined> {
+    const [alert] = await this.db
+      .select()
+      .from(alerts)
+      .where(and(eq(alerts.userId, userId), eq(alerts.id, id)));
+    return alert;
+  }
+
+  async createAlert(userId: number, insertAlert: InsertAlert): Promise<Alert> {
+    const [alert] = await this.db
+      .insert(alerts)
+      .values({ ...insertAlert, userId, createdAt: unixNow() })
+      .returning();
+    return alert;
+  }
+
+  async updateAlert(userId: number, id: number, changes: UpdateAlert & { triggeredAt?: number | null }): Promise<Alert | undefined> {
+    const [alert] = await this.db
+      .update(alerts)
+      .set(changes)
+      .where(and(eq(alerts.userId, userId), eq(alerts.id, id)))
+      .returning();
+    return alert;
+  }
+
+  async deleteAlert(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(alerts)
+      .where(and(eq(alerts.userId, userId), eq(alerts.id, id)))
+      .returning({ id: alerts.id });
+    return deleted.length > 0;
+  }
+
+  async getNotificationChannels(userId: number): Promise<NotificationChannel[]> {
+    return this.db
+      .select()
+      .from(notificationChannels)
+      .where(eq(notificationChannels.userId, userId))
+      .orderBy(notificationChannels.id);
+  }
+
+  async getNotificationChannel(userId: number, id: number): Promise<NotificationChannel | undefined> {
+    const [channel] = await this.db
+      .select()
+      .from(notificationChannels)
+      .where(and(eq(notificationChannels.userId, userId), eq(notificationChannels.id, id)));
+    return channel;
+  }
+
+  async createNotificationChannel(userId: number, insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [channel] = await this.db
+      .insert(notificationChannels)
+      .values({ ...insertChannel, userId, createdAt: unixNow() })
+      .returning();
+    return channel;
+  }
+
+  async updateNotificationChannel(userId: number, id: number, changes: UpdateNotificationChannel): Promise<NotificationChannel | undefined> {
+    const [channel] = await this.db
+      .update(notificationChannels)
+      .set(changes)
+      .where(and(eq(notificationChannels.userId, userId), eq(notificationChannels.id, id)))
+      .returning();
+    return channel;
+  }
+
+  async deleteNotificationChannel(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notificationChannels)
+      .where(and(eq(notificationChannels.userId, userId), eq(notificationChannels.id, id)))
+      .returning({ id: notificationChannels.id });
+    return deleted.length > 0;
+  }
+
+  async getDeliveries(userId: number, limit: number): Promise<NotificationDelivery[]> {
+    return this.db
+      .select()
+      .from(notificationDeliveries)
+      .where(eq(notificationDeliveries.userId, userId))
+      .orderBy(desc(notificationDeliveries.id))
+      .limit(limit);
+  }
+
+  async createDelivery(delivery: { userId: number; channelId: number; alertId: number | null }): Promise<NotificationDelivery> {
+    const [created] = await this.db
+      .insert(notificationDeliveries)
+      .values({ ...delivery, createdAt: unixNow() })
+      .returning();
+    return created;
+  }
+
+  async updateDelivery(id: number, changes: DeliveryUpdate): Promise<NotificationDelivery | undefined> {
+    const [delivery] = await this.db
+      .update(notificationDeliveries)
+      .set(changes)
+      .where(eq(notificationDeliveries.id, id))
+      .returning();
+    return delivery;
+  }
+
+  async getPreferences(userId: number): Promise<Preferences | undefined> {
+    const [row] = await this.db.select().from(preferences).where(eq(preferences.userId, userId));
+    return row?.data;
+  }
+
+  async savePreferences(userId: number, data: Preferences): Promise<Preferences> {
+    const updatedAt = unixNow();
+    const [row] = await this.db
+      .insert(preferences)
+      .values({ userId, data, updatedAt })
+      .onConflictDoUpdate({
+        target: preferences.userId,
+        set: { data, updatedAt },
+      })
+      .returning();
+    return row.data;
+  }
+}
+
+// Postgres when DATABASE_URL is set, otherwise everything lives in memory
+const db = process.env.DATABASE_URL ? createDb(process.env.DATABASE_URL) : null;
+
+export const storage: IStorage = db ? new DbStorage(db) : new MemStorage();
+
+export interface CandleQuery {
+  since?: number; // only candles starting after this unix time
+  before?: number; // only candles starting before this unix time
+  limit?: number; // newest candles first when limited
+}
+
+// Persisted OHLC history, one series per pair/interval
+export interface ICandleStore {
+  getCandles(pair: string, interval: number, query?: CandleQuery): Promise<Candle[]>;
+  getLatestCandle(pair: string, interval: number): Promise<Candle | undefined>;
+  upsertCandles(candles: Candle[]): Promise<void>;
+}
+
+function seriesKey(pair: string, interval: number): string {
+  return `${pair}:${interval}`;
+}
+
+// Apply a since/limit query to a series sorted by time
+function applyCandleQuery(series: Candle[], query: CandleQuery = {}): Candle[] {
+  let result = series;
+  if (query.since !== undefined) {
+    const since = query.since;
+    result = result.filter((candle) => candle.time > since);
+  }
+  if (query.before !== undefined) {
+    const before = query.before;
+    result = result.filter((candle) => candle.time < before);
+  }
+  if (query.limit !== undefined) {
+    result = result.slice(-query.limit);
+  }
+  return result;
+}
+
+// Candles kept per series without a database, the oldest are dropped first
+const DEFAULT_MEM_CANDLES_PER_SERIES = 20000;
+
+// MEM_CANDLES_PER_SERIES overrides the default
+export function memCandleLimitFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const limit = parseInt(env.MEM_CANDLES_PER_SERIES ?? "", 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MEM_CANDLES_PER_SERIES;
+}
+
+export class MemCandleStore implements ICandleStore {
+  // Each series is kept sorted by candle time
+  private series: Map<string, Candle[]>;
+
+  constructor(private maxPerSeries: number = DEFAULT_MEM_CANDLES_PER_SERIES) {
+    this.series = new Map();
+  }
+
+  async getCandles(pair: string, interval: number, query?: CandleQuery): Promise<Candle[]> {
+    return applyCandleQuery(this.series.get(seriesKey(pair, interval)) ?? [], query);
+  }
+
+  async getLatestCandle(pair: string, interval: number): Promise<Candle | undefined> {
+    const series = this.series.get(seriesKey(pair, interval));
+    return series?.[series.length - 1];
+  }
+
+  async upsertCandles(candles: Candle[]): Promise<void> {
+    const touched = new Set<Candle[]>();
+    for (const candle of candles) {
+      const key = seriesKey(candle.pair, candle.interval);
+      let series = this.series.get(key);
+      if (!series) {
+        series = [];
+        this.series.set(key, series);
+      }
+
+      // Live updates almost always touch the newest candle, so search from the end
+      let index = series.length - 1;
+      while (index >= 0 && series[index].time > candle.time) {
+        index--;
+      }
+
+      if (index >= 0 && series[index].time === candle.time) {
+        series[index] = candle;
+      } else {
+        series.splice(index + 1, 0, candle);
+      }
+      touched.add(series);
+    }
+
+    touched.forEach((series) => {
+      if (series.length > this.maxPerSeries) {
+        series.splice(0, series.length - this.maxPerSeries);
+      }
+    });
+  }
+}
+
+export class DbCandleStore implements ICandleStore {
+  constructor(private db: Database) {}
+
+  async getCandles(pair: string, interval: number, query: CandleQuery = {}): Promise<Candle[]> {
+    const conditions = [eq(candles.pair, pair), eq(candles.interval, interval)];
+    if (query.since !== undefined) {
+      conditions.push(gt(candles.time, query.since));
+    }
+    if (query.before !== undefined) {
+      conditions.push(lt(candles.time, query.before));
+    }
+
+    const statement = this.db
+      .select()
+      .from(candles)
+      .where(and(...conditions))
+      .orderBy(desc(candles.time));
+
+    const rows = query.limit !== undefined
+      ? await statement.limit(query.limit)
+      : await statement;
+
+    return rows.reverse();
+  }
+
+  async getLatestCandle(pair: string, interval: number): Promise<Candle | undefined> {
+    const [latest] = await this.db
+      .select()
+      .from(candles)
+      .where(and(eq(candles.pair, pair), eq(candles.interval, interval)))
+      .orderBy(desc(candles.time))
+      .limit(1);
+    return latest;
+  }
+
+  async upsertCandles(rows: Candle[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await this.db
+      .insert(candles)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [candles.pair, candles.interval, candles.time],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          vwap: sql`excluded.vwap`,
+          volume: sql`excluded.volume`,
+          count: sql`excluded.count`,
+        },
+      });
+  }
 }
 
-export const storage = new MemStorage();
+export const candleStore: ICandleStore = db ? new DbCandleStore(db) : new MemCandleStore(memCandleLimitFromEnv());
@@ -0,0 +1,114 @@
+import type { WebSocket } from 'ws';
+import type { ChannelName } from '@shared/protocol';
+
+// A single Kraken channel subscription as requested by a browser client,
+// see channelSchema in shared/protocol.ts
+export interface ChannelSubscription {
+  name: ChannelName;
+  pair: string;
+  interval?: number;
+  depth?: number;
+}
+
+// Kraken names its channels after the subscription options,
+// e.g. "ohlc-5" for 5 minute candles or "book-10" for a 10 level book
+export function channelName(subscription: Omit<ChannelSubscription, 'pair'>): string {
+  if (subscription.name === 'ohlc') {
+    return `ohlc-${subscription.interval ?? 1}`;
+  }
+  if (subscription.name === 'book') {
+    return `book-${subscription.depth ?? 10}`;
+  }
+  return subscription.name;
+}
+
+export function subscriptionKey(subscription: ChannelSubscription): string {
+  return `${channelName(subscription)}:${subscription.pair}`;
+}
+
+// Channels whose updates are only meaningful on top of an initial snapshot.
+// Kraken only sends the snapshot on subscribe, so clients joining an
+// existing upstream subscription need it to be renewed.
+export function needsSnapshot(subscription: ChannelSubscription): boolean {
+  return subscription.name === 'book';
+}
+
+/**
+ * Reference-counted mapping between upstream Kraken channels and the
+ * browser clients interested in them. The shared Kraken socket only needs
+ * one subscription per key, no matter how many clients asked for it.
+ * Server-side consumers such as the alert engine can hold subscriptions too.
+ */
+export class SubscriptionRegistry<Client = WebSocket> {
+  private clientsByKey = new Map<string, Set<Client>>();
+  private keysByClient = new Map<Client, Set<string>>();
+  private subscriptions = new Map<string, ChannelSubscription>();
+
+  // Returns true when this is the first client for the key and the
+  // upstream subscription has to be created
+  add(client: Client, subscription: ChannelSubscription): boolean {
+    const key = subscriptionKey(subscription);
+
+    let clients = this.clientsByKey.get(key);
+    const isFirst = !clients;
+    if (!clients) {
+      clients = new Set();
+      this.clientsByKey.set(key, clients);
+      this.subscriptions.set(key, subscription);
+    }
+    clients.add(client);
+
+    let keys = this.keysByClient.get(client);
+    if (!keys) {
+      keys = new Set();
+      this.keysByClient.set(client, keys);
+    }
+    keys.add(key);
+
+    return isFirst;
+  }
+
+  // Returns the subscription when the last interested client is gone
+  // and the upstream subscription can be dropped
+  remove(client: Client, subscription: ChannelSubscription): ChannelSubscription | null {
+    const key = subscriptionKey(subscription);
+    this.keysByClient.get(client)?.delete(key);
+    return this.release(client, key);
+  }
+
+  // Drop every subscription held by a client, returning those that
+  // no longer have any listeners
+  removeClient(client: Client): ChannelSubscription[] {
+    const keys = this.keysByClient.get(client);
+    this.keysByClient.delete(client);
+    if (!keys) return [];
+
+    const orphaned: ChannelSubscription[] = [];
+    keys.forEach(key => {
+      const subscription = this.release(client, key);
+      if (subscription) orphaned.push(subscription);
+    });
+    return orphaned;
+  }
+
+  clientsFor(key: string): Set<Client> {
+    return this.clientsByKey.get(key) ?? new Set();
+  }
+
+  all(): ChannelSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  private release(client: Client, key: string): ChannelSubscription | null {
+    const clients = this.clientsByKey.get(key);
+    if (!clients) return null;
+
+    clients.delete(client);
+    if (clients.size > 0) return null;
+
+    const subscription = this.subscriptions.get(key) ?? null;
+    this.clientsByKey.delete(key);
+    this.subscriptions.delete(key);
+    return subscription;
+  }
+}
@@ -0,0 +1,243 @@
+import { WebSocket } from 'ws';
+import type { UpstreamHealth, UpstreamState } from '@shared/protocol';
+import type { ChannelSubscription } from './subscriptions';
+import type { KrakenAdapter, KrakenEvent } from './krakenAdapter';
+
+/**
+ * Keeps the one WebSocket connection to Kraken shared by all clients alive.
+ *
+ * The owner holds the authoritative set of subscriptions, which is replayed
+ * every time a connection opens. The adapter decides which of Kraken's
+ * APIs is spoken and turns its messages into events. Lost connections are retried with jittered
+ * exponential backoff for as long as the supervisor is started.
+ *
+ * Kraken sends a heartbeat about every second while no channel has traffic,
+ * so a connection that goes quiet is reported degraded and, if it stays
+ * quiet, replaced. systemStatus messages tell when Kraken is in maintenance.
+ */
+
+export interface UpstreamSupervisorOptions {
+  adapter: KrakenAdapter;
+  // Everything clients and alerts are subscribed to
+  subscriptions(): ChannelSubscription[];
+  // Every event except heartbeats
+  onEvent(event: KrakenEvent): void;
+  onHealth(health: UpstreamHealth): void;
+}
+
+const BASE_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 60000;
+const CONNECT_TIMEOUT = 10000;
+
+// Silence after which the connection counts as degraded, then as stalled
+const DEGRADED_AFTER = 5000;
+const STALLED_AFTER = 15000;
+const WATCHDOG_INTERVAL = 1000;
+
+// Between half and all of the exponential delay, so servers restarted
+// together don't reconnect in lockstep
+function reconnectDelay(attempt: number): number {
+  const delay = Math.min(MAX_RECONNECT_DELAY, BASE_RECONNECT_DELAY * Math.pow(2, attempt));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export class UpstreamSupervisor {
+  private socket: WebSocket | null = null;
+  private started = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private watchdog: NodeJS.Timeout | null = null;
+  private lastMessageAt = 0;
+  private krakenStatus: string | null = null;
+  private health: UpstreamHealth = {
+    state: 'connecting',
+    since: Date.now(),
+    krakenStatus: null,
+    reconnectAttempts: 0,
+  };
+
+  constructor(private options: UpstreamSupervisorOptions) {}
+
+  get status(): UpstreamHealth {
+    return this.health;
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Connect, unless already connected or waiting to reconnect
+  start() {
+    this.started = true;
+    if (this.socket || this.reconnectTimer) return;
+    this.connect();
+  }
+
+  // Close the connection and stop reconnecting
+  stop() {
+    this.started = false;
+    this.reconnectAttempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.stopWatchdog();
+    socket?.close();
+  }
+
+  // Subscriptions made while disconnected are part of the next replay
+  subscribe(subscriptions: ChannelSubscription[]) {
+    this.sendSubscriptions('subscribe', subscriptions);
+  }
+
+  unsubscribe(subscriptions: ChannelSubscription[]) {
+    this.sendSubscriptions('unsubscribe', subscriptions);
+  }
+
+  private send(message: unknown) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sendSubscriptions(event: 'subscribe' | 'unsubscribe', subscriptions: ChannelSubscription[]) {
+    if (subscriptions.length === 0 || !this.isOpen) return;
+    const refuse = (subscription: ChannelSubscription, error: string) =>
+      this.options.onEvent({ type: 'subscriptionError', subscription, error });
+    this.options.adapter.subscriptionMessages(event, subscriptions, refuse).forEach(message => this.send(message));
+  }
+
+  private connect() {
+    const { adapter } = this.options;
+    adapter.reset();
+    const socket = new WebSocket(adapter.url);
+    this.socket = socket;
+    this.updateHealth();
+
+    const timeout = setTimeout(() => {
+      if (socket.readyState !== WebSocket.OPEN) {
+        socket.terminate();
+      }
+    }, CONNECT_TIMEOUT);
+
+    socket.on('open', () => {
+      clearTimeout(timeout);
+      if (this.socket !== socket) return;
+      this.lastMessageAt = Date.now();
+      this.sendSubscriptions('subscribe', this.options.subscriptions());
+      this.startWatchdog();
+      this.updateHealth();
+    });
+
+    socket.on('message', (data) => {
+      if (this.socket !== socket) return;
+      this.lastMessageAt = Date.now();
+
+      let events: KrakenEvent[];
+      try {
+        events = adapter.parse(JSON.parse(data.toString()));
+      } catch (e) {
+        return;
+      }
+
+      events.forEach(event => {
+        // Only a connection that carries data counts as recovered,
+        // Kraken also greets connections it is about to drop
+        if (event.type === 'data' || event.type === 'heartbeat') {
+          this.reconnectAttempts = 0;
+        }
+        if (event.type === 'systemStatus') {
+          this.krakenStatus = event.status;
+        }
+      });
+      this.updateHealth();
+
+      events.forEach(event => {
+        if (event.type !== 'heartbeat') this.options.onEvent(event);
+      });
+    });
+
+    socket.on('error', () => {
+      // console.error('Kraken WebSocket error:', error);
+      // The close event follows and schedules the reconnect
+    });
+
+    socket.on('close', () => {
+      clearTimeout(timeout);
+      if (this.socket !== socket) return; // stopped or replaced
+
+      this.socket = null;
+      this.stopWatchdog();
+      if (this.started) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect() {
+    const delay = reconnectDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    // console.log(`Reconnecting to Kraken in ${Math.round(delay)}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.started) this.connect();
+    }, delay);
+    this.updateHealth();
+  }
+
+  private startWatchdog() {
+    this.stopWatchdog();
+    this.watchdog = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > STALLED_AFTER) {
+        // The close event reconnects
+        this.socket?.terminate();
+        return;
+      }
+      this.updateHealth();
+    }, WATCHDOG_INTERVAL);
+  }
+
+  private stopWatchdog() {
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+  }
+
+  private updateHealth() {
+    let state: UpstreamState;
+    let reason: string | undefined;
+
+    if (this.krakenStatus === 'maintenance') {
+      state = 'maintenance';
+    } else if (!this.isOpen) {
+      state = 'connecting';
+      if (this.reconnectAttempts > 0) reason = 'Connection to Kraken lost';
+    } else if (Date.now() - this.lastMessageAt > DEGRADED_AFTER) {
+      state = 'degraded';
+      reason = 'No data from Kraken';
+    } else {
+      state = 'live';
+    }
+
+    const previous = this.health;
+    if (
+      previous.state === state &&
+      previous.krakenStatus === this.krakenStatus &&
+      previous.reconnectAttempts === this.reconnectAttempts
+    ) {
+      return;
+    }
+
+    this.health = {
+      state,
+      since: previous.state === state ? previous.since : Date.now(),
+      krakenStatus: this.krakenStatus,
+      reconnectAttempts: this.reconnectAttempts,
+      ...(reason ? { reason } : {}),
+    };
+    this.options.onHealth(this.health);
+  }
+}
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import type { Alert } from "./schema";
+
+/**
+ * Messages exchanged between the browser and the /ws proxy.
+ *
+ * The server translates Kraken's frames into these, so the client never
+ * sees Kraken's wire format. Every message carries the protocol version;
+ * the server answers messages of another version with an error. Prices and
+ * volumes are kept as the decimal strings Kraken sends.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+const version = z.literal(PROTOCOL_VERSION);
+
+export const channelNames = ["ohlc", "ticker", "trade", "book"] as const;
+export type ChannelName = typeof channelNames[number];
+
+// One channel of one pair, pairs are named by their wsname ("XBT/USD")
+export const channelSchema = z.object({
+  name: z.enum(channelNames),
+  pair: z.string().min(1),
+  interval: z.number().int().positive().optional(), // ohlc, minutes
+  depth: z.number().int().positive().optional(),    // book, levels per side
+});
+
+export type Channel = z.infer<typeof channelSchema>;
+
+// Client to server
+
+const subscribeMessageSchema = z.object({
+  v: version,
+  type: z.literal("subscribe"),
+  reqid: z.number().int().optional(),
+  channels: z.array(channelSchema).min(1),
+});
+
+const unsubscribeMessageSchema = subscribeMessageSchema.extend({
+  type: z.literal("unsubscribe"),
+});
+
+const pingMessageSchema = z.object({
+  v: version,
+  type: z.literal("ping"),
+  timestamp: z.number(),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  subscribeMessageSchema,
+  unsubscribeMessageSchema,
+  pingMessageSchema,
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Server to client
+
+const candleSchema = z.object({
+  time: z.number(), // start of the candle, unix seconds
+  open: z.string(),
+  high: z.string(),
+  low: z.string(),
+  close: z.string(),
+  vwap: z.string(),
+  volume: z.string(),
+  count: z.number(),
+});
+
+const tickerSchema = z.object({
+  last: z.string(),
+  open24h: z.string(),
+  high24h: z.string(),
+  low24h: z.string(),
+  volume24h: z.string(),
+});
+
+const tradeSchema = z.object({
+  price: z.string(),
+  volume: z.string(),
+  time: z.number(), // unix seconds with fractions
+  side: z.enum(["buy", "sell"]),
+});
+
+const bookLevelSchema = z.object({
+  price: z.string(),
+  volume: z.string(), // zero removes the level
+});
+
+export type ProtocolCandle = z.infer<typeof candleSchema>;
+export type ProtocolTicker = z.infer<typeof tickerSchema>;
+export type ProtocolTrade = z.infer<typeof tradeSchema>;
+export type ProtocolBookLevel = z.infer<typeof bookLevelSchema>;
+
+// Full order book, sent on subscribe and whenever the book is renewed
+const bookSnapshotMessageSchema = z.object({
+  v: version,
+  type: z.literal("snapshot"),
+  channel: z.literal("book"),
+  pair: z.string(),
+  depth: z.number(),
+  asks: z.array(bookLevelSchema),
+  bids: z.array(bookLevelSchema),
+});
+
+const updateMessageSchema = z.discriminatedUnion("channel", [
+  z.object({
+    v: version,
+    type: z.literal("update"),
+    channel: z.literal("ohlc"),
+    pair: z.string(),
+    interval: z.number(),
+    candle: candleSchema, // the forming candle of the interval
+  }),
+  z.object({
+    v: version,
+    type: z.literal("update"),
+    channel: z.literal("ticker"),
+    pair: z.string(),
+    ticker: tickerSchema,
+  }),
+  z.object({
+    v: version,
+    type: z.literal("update"),
+    channel: z.literal("trade"),
+    pair: z.string(),
+    trades: z.array(tradeSchema), // oldest first
+  }),
+  z.object({
+    v: version,
+    type: z.literal("update"),
+    channel: z.literal("book"),
+    pair: z.string(),
+    depth: z.number(),
+    asks: z.array(bookLevelSchema),
+    bids: z.array(bookLevelSchema),
+    checksum: z.string().optional(), // CRC32 of the top of the book after the update
+  }),
+]);
+
+// Health of the server's connection to Kraken
+export const upstreamStates = [
+  "connecting",  // not connected yet or reconnecting
+  "live",        // data is flowing
+  "degraded",    // connected, but Kraken went quiet
+  "maintenance", // Kraken reported maintenance in its systemStatus
+] as const;
+
+export type UpstreamState = typeof upstreamStates[number];
+
+export const upstreamHealthSchema = z.object({
+  state: z.enum(upstreamStates),
+  since: z.number(), // when the state was entered, unix ms
+  krakenStatus: z.string().nullable(), // last systemStatus, e.g. "online" or "cancel_only"
+  reconnectAttempts: z.number(),
+  reason: z.string().optional(),
+});
+
+export type UpstreamHealth = z.infer<typeof upstreamHealthSchema>;
+
+// Sent on connect and whenever the health changes
+const statusMessageSchema = z.object({
+  v: version,
+  type: z.literal("status"),
+  connected: z.boolean(),
+  health: upstreamHealthSchema,
+});
+
+const pongMessageSchema = z.object({
+  v: version,
+  type: z.literal("pong"),
+  timestamp: z.number(),
+  echo: z.number(),
+});
+
+// Answers a subscribe or unsubscribe request once the server has taken it.
+// Kraken confirms channels later, refused ones come back as
+// subscription_failed errors with the same reqid.
+const ackMessageSchema = z.object({
+  v: version,
+  type: z.enum(["subscribed", "unsubscribed"]),
+  reqid: z.number().int().optional(),  // of the request
+  channels: z.array(channelSchema),
+});
+
+export const errorCodes = [
+  "invalid_message",      // not a valid client message
+  "unsupported_version",  // sent with another protocol version
+  "subscription_failed",  // Kraken refused the channel
+  "too_many_connections",
+  "upstream_error",       // any other error reported by Kraken
+] as const;
+
+export type ErrorCode = typeof errorCodes[number];
+
+const errorMessageSchema = z.object({
+  v: version,
+  type: z.literal("error"),
+  code: z.enum(errorCodes),
+  message: z.string(),
+  reqid: z.number().int().optional(),  // of the request that failed
+  channel: channelSchema.optional(),   // for subscription errors
+});
+
+// An alert fired, see AlertEvent
+const alertMessageSchema = z.object({
+  v: version,
+  type: z.literal("alert"),
+  alert: z.custom<Alert>(value => typeof value === "object" && value !== null),
+  price: z.number(),
+  message: z.string(),
+});
+
+// Market data first, it makes up nearly all of the traffic
+export const serverMessageSchema = z.union([
+  updateMessageSchema,
+  bookSnapshotMessageSchema,
+  statusMessageSchema,
+  pongMessageSchema,
+  ackMessageSchema,
+  errorMessageSchema,
+  alertMessageSchema,
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type UpdateMessage = z.infer<typeof updateMessageSchema>;
+export type BookSnapshotMessage = z.infer<typeof bookSnapshotMessageSchema>;
+export type ErrorMessage = z.infer<typeof errorMessageSchema>;
+
+// Messages without the version, which is added when they are sent
+type Unversioned<T> = T extends unknown ? Omit<T, "v"> : never;
+
+export function serverMessage<T extends ServerMessage = ServerMessage>(message: Unversioned<T>): T {
+  return { v: PROTOCOL_VERSION, ...message } as unknown as T;
+}
+
+export function clientMessage(message: Unversioned<ClientMessage>): ClientMessage {
+  return { v: PROTOCOL_VERSION, ...message } as ClientMessage;
+}
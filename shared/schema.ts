@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, primaryKey, doublePrecision, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,7 +8,10 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3).max(64),
+  password: (schema) => schema.min(8).max(256),
+}).pick({
   username: true,
   password: true,
 });
@@ -16,6 +19,213 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Per-user settings of the dashboard. Anonymous visitors keep the same
+// document in localStorage, see client/src/lib/preferences.ts
+export const chartTypes = ["candles", "line"] as const;
+export const themes = ["light", "dark", "system"] as const;
+export const chartLayouts = [1, 2, 4, 6] as const;
+
+export const indicatorConfigSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  params: z.record(z.number()),
+  color: z.string(),
+});
+
+// What each chart of the grid shows, by position
+export const paneSettingsSchema = z.object({
+  pair: z.string().optional(), // pair id, e.g. "XXBTZUSD"
+  interval: z.number().int().positive().optional(), // minutes
+  indicators: z.array(indicatorConfigSchema).max(20).default([]),
+});
+
+export const indicatorSetSchema = z.object({
+  name: z.string().min(1).max(64),
+  indicators: z.array(indicatorConfigSchema).max(20),
+});
+
+// Named list of pair ids followed with live mini-tickers
+export const watchlistSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().trim().min(1).max(64),
+  pairs: z.array(z.string()).max(50).default([]),
+});
+
+export const preferencesSchema = z.object({
+  favoritePairs: z.array(z.string()).max(200).default([]),
+  recentPairs: z.array(z.string()).max(20).default([]), // most recent first
+  defaultInterval: z.number().int().positive().default(5),
+  chartType: z.enum(chartTypes).default("candles"),
+  theme: z.enum(themes).default("light"),
+  layout: z.number().int().refine(
+    (value) => (chartLayouts as readonly number[]).includes(value),
+    { message: "Must be 1, 2, 4 or 6" },
+  ).default(1),
+  linked: z.boolean().default(false),
+  panes: z.array(paneSettingsSchema).max(6).default([]),
+  indicatorSets: z.array(indicatorSetSchema).max(50).default([]),
+  watchlists: z.array(watchlistSchema).max(20).default([]),
+  activeWatchlist: z.string().optional(), // watchlist id
+});
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+export type PaneSettings = z.infer<typeof paneSettingsSchema>;
+export type IndicatorSet = z.infer<typeof indicatorSetSchema>;
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+export const preferences = pgTable("preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  data: jsonb("data").$type<Preferences>().notNull(),
+  updatedAt: integer("updated_at").notNull(), // unix seconds
+});
+
+// OHLC candles persisted per pair/interval. Prices are kept as the
+// strings Kraken sends to avoid losing precision.
+export const candles = pgTable("candles", {
+  pair: text("pair").notNull(),
+  interval: integer("interval").notNull(),
+  time: integer("time").notNull(), // candle start, unix seconds
+  open: text("open").notNull(),
+  high: text("high").notNull(),
+  low: text("low").notNull(),
+  close: text("close").notNull(),
+  vwap: text("vwap").notNull(),
+  volume: text("volume").notNull(),
+  count: integer("count").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.pair, table.interval, table.time] }),
+]);
+
+export type Candle = typeof candles.$inferSelect;
+
+// Price alerts evaluated by the server against the live Kraken feed
+export const alertConditions = [
+  "price_above",   // last price crosses above threshold
+  "price_below",   // last price crosses below threshold
+  "percent_move",  // price moves threshold percent, up or down, within lookback minutes
+  "close_above",   // a candle of `interval` closes above threshold
+  "close_below",   // a candle of `interval` closes below threshold
+  "volume_spike",  // a candle of `interval` has threshold times the average volume of the lookback candles before it
+] as const;
+
+export type AlertCondition = typeof alertConditions[number];
+
+// Candle intervals Kraken serves OHLC data for, in minutes
+export const krakenIntervals = [1, 5, 15, 30, 60, 240, 1440, 10080, 21600] as const;
+
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  pair: text("pair").notNull(), // WebSocket pair name, e.g. "XBT/USD"
+  condition: text("condition", { enum: alertConditions }).notNull(),
+  threshold: doublePrecision("threshold").notNull(),
+  interval: integer("interval").notNull().default(1), // candle interval in minutes
+  lookback: integer("lookback").notNull().default(20),
+  note: text("note"),
+  active: boolean("active").notNull().default(true),
+  createdAt: integer("created_at").notNull(), // unix seconds
+  triggeredAt: integer("triggered_at"),
+});
+
+export const insertAlertSchema = createInsertSchema(alerts, {
+  pair: (schema) => schema.min(1),
+  threshold: (schema) => schema.finite(),
+}).pick({
+  pair: true,
+  condition: true,
+  threshold: true,
+  note: true,
+}).extend({
+  interval: z.number().int().refine(
+    (value) => (krakenIntervals as readonly number[]).includes(value),
+    { message: `Must be one of ${krakenIntervals.join(", ")}` },
+  ).optional(),
+  lookback: z.number().int().positive().max(1440).optional(),
+});
+
+export const updateAlertSchema = insertAlertSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type UpdateAlert = z.infer<typeof updateAlertSchema>;
+export type Alert = typeof alerts.$inferSelect;
+
+// Pushed to browsers over /ws when an alert fires
+export interface AlertEvent {
+  type: "alert";
+  alert: Alert;
+  price: number;
+  message: string;
+}
+
+// Outside systems notified when an alert fires
+export const notificationChannelTypes = [
+  "webhook", // JSON POST signed with HMAC-SHA256 when a secret is set
+  "slack",   // Slack-compatible incoming webhook
+  "email",   // sent through the SMTP server configured in the environment
+] as const;
+
+export type NotificationChannelType = typeof notificationChannelTypes[number];
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type", { enum: notificationChannelTypes }).notNull(),
+  name: text("name").notNull(),
+  target: text("target").notNull(), // URL, or the recipient address for email
+  secret: text("secret"),
+  active: boolean("active").notNull().default(true),
+  createdAt: integer("created_at").notNull(), // unix seconds
+});
+
+export const insertNotificationChannelSchema = createInsertSchema(notificationChannels, {
+  name: (schema) => schema.min(1),
+}).pick({
+  type: true,
+  name: true,
+  target: true,
+  secret: true,
+}).superRefine((channel, ctx) => {
+  const valid = channel.type === "email"
+    ? z.string().email().safeParse(channel.target).success
+    : z.string().url().safeParse(channel.target).success;
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["target"],
+      message: channel.type === "email" ? "Must be an email address" : "Must be a URL",
+    });
+  }
+});
+
+export const updateNotificationChannelSchema = z.object({
+  name: z.string().min(1).optional(),
+  secret: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type UpdateNotificationChannel = z.infer<typeof updateNotificationChannelSchema>;
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+
+export const deliveryStatuses = ["pending", "delivered", "failed"] as const;
+
+// One row per alert and channel, updated as attempts are made
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  channelId: integer("channel_id").notNull(),
+  alertId: integer("alert_id"), // null for test notifications
+  status: text("status", { enum: deliveryStatuses }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  createdAt: integer("created_at").notNull(), // unix seconds
+  completedAt: integer("completed_at"),
+});
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
 // Kraken API response schemas
 export const ohlcSchema = z.array(
   z.tuple([
@@ -56,6 +266,8 @@ export const tradingPairInfoSchema = z.object({
   ordermin: z.string().optional(),
 });
 
+export type TradingPairInfo = z.infer<typeof tradingPairInfoSchema>;
+
 export const krakenAssetPairsResponseSchema = z.object({
   error: z.array(z.string()),
   result: z.record(tradingPairInfoSchema),
@@ -77,3 +289,18 @@ export const krakenTickerResponseSchema = z.object({
   error: z.array(z.string()),
   result: z.record(tickerInfoSchema),
 });
+
+// [price, volume, time, side, orderType, misc, tradeId]
+export const tradeSchema = z.tuple([
+  z.string(), // price
+  z.string(), // volume
+  z.number(), // time
+  z.enum(["b", "s"]), // side
+  z.string(), // order type
+  z.string(), // misc
+]).rest(z.number()); // trade id
+
+export const krakenTradesResponseSchema = z.object({
+  error: z.array(z.string()),
+  result: z.record(z.union([z.array(tradeSchema), z.string()])),
+});